@@ -1,6 +1,8 @@
+import asyncio
 from fastapi import FastAPI
 from fastapi.middleware.cors import CORSMiddleware
 from tasksapi.routes import router as api_router
+from tasksapi.crud.conversations import purge_deleted_conversations
 from config import settings
 
 app = FastAPI(
@@ -15,7 +17,7 @@ app.add_middleware(
     CORSMiddleware,
     allow_origins=settings.cors_origins,
     allow_credentials=True,
-    allow_methods=["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allow_methods=["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allow_headers=["*"],
 )
 
@@ -24,6 +26,21 @@ app.add_middleware(
 async def health_check():
     return {"status": "healthy", "environment": settings.environment}
 
+# Permanently remove conversations left in the trash past the retention period
+async def purge_trash_periodically():
+    while True:
+        try:
+            purged = purge_deleted_conversations()
+            if purged:
+                print(f"Purged {purged} conversation(s) from the trash.")
+        except Exception as e:
+            print(f"Trash purge failed: {e}")
+        await asyncio.sleep(60 * 60)
+
+@app.on_event("startup")
+async def start_trash_purge():
+    asyncio.create_task(purge_trash_periodically())
+
 # Prefix is used to group routes under a common path
 app.include_router(api_router, prefix="/api")
 
@@ -1,4 +1,6 @@
 import os
+import json
+import uuid
 import mariadb
 import sys
 from sqlmodel import Session, create_engine
@@ -34,6 +36,32 @@ def get_connection():
     sys.exit(1)
   return conn
 
+# Move messages from the legacy conversations.messages JSON blob into the
+# messages table, giving each one a persistent id
+def migrate_message_blobs(cursor):
+  cursor.execute("SELECT conversation_id, messages, active_message_id FROM conversations WHERE messages != '[]'")
+  rows = cursor.fetchall()
+  for conversation_id, blob, active_message_id in rows:
+    messages = json.loads(blob) if blob else []
+    previous_id = None
+    for message in messages:
+      if "id" not in message:
+        message["id"] = uuid.uuid4().hex
+        message["parent_id"] = previous_id
+      previous_id = message["id"]
+      cursor.execute(
+        "INSERT IGNORE INTO messages (id, conversation_id, parent_id, role, content, timestamp, stopped) "
+        "VALUES (?, ?, ?, ?, ?, ?, ?)",
+        (message["id"], conversation_id, message.get("parent_id"), message["role"],
+         message["content"], message["timestamp"], bool(message.get("stopped")))
+      )
+    cursor.execute(
+      "UPDATE conversations SET messages = '[]', active_message_id = ? WHERE conversation_id = ?",
+      (active_message_id or previous_id, conversation_id)
+    )
+  if rows:
+    print(f"Migrated messages of {len(rows)} conversation(s) to the messages table.")
+
 # Initialize the database and create the tasks table if it doesn't exist
 def init_db():
   conn = get_connection()
@@ -51,6 +79,17 @@ def init_db():
       );
     """)
 
+    # Accounts from before email verification keep working: when the column is
+    # first added, every existing address counts as verified
+    cursor.execute("""
+      SELECT COUNT(*) FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'users' AND COLUMN_NAME = 'email_verified_at'
+    """)
+    has_email_verification = cursor.fetchone()[0] > 0
+    cursor.execute("ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at DATETIME(6);")
+    if not has_email_verification:
+      cursor.execute("UPDATE users SET email_verified_at = created_at;")
+
     cursor.execute("""
       CREATE TABLE IF NOT EXISTS user_tokens (
         id INT PRIMARY KEY AUTO_INCREMENT,
@@ -63,15 +102,158 @@ def init_db():
       );
     """)
 
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        created_at DATETIME(6) NOT NULL,
+        expires_at DATETIME(6) NOT NULL,
+        revoked_at DATETIME(6),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        created_at DATETIME(6) NOT NULL,
+        expires_at DATETIME(6) NOT NULL,
+        used_at DATETIME(6),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS email_verification_tokens (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        created_at DATETIME(6) NOT NULL,
+        expires_at DATETIME(6) NOT NULL,
+        used_at DATETIME(6),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS folders (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        parent_id INT,
+        name VARCHAR(100) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (parent_id) REFERENCES folders(id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS tags (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        name VARCHAR(50) NOT NULL,
+        color VARCHAR(16) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_tags_user_name (user_id, name),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    """)
+
     cursor.execute("""
       CREATE TABLE IF NOT EXISTS conversations (
         conversation_id INT PRIMARY KEY AUTO_INCREMENT,
         user_id INT NOT NULL,
         timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         messages TEXT NOT NULL,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        active_message_id VARCHAR(64),
+        title VARCHAR(255),
+        last_message_at DATETIME(6),
+        pinned BOOLEAN DEFAULT FALSE,
+        archived BOOLEAN DEFAULT FALSE,
+        deleted_at DATETIME(6),
+        folder_id INT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE SET NULL
       );
     """)
+
+    # Columns added after the first release
+    cursor.execute("""
+      ALTER TABLE conversations
+        ADD COLUMN IF NOT EXISTS active_message_id VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS title VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS last_message_at DATETIME(6),
+        ADD COLUMN IF NOT EXISTS pinned BOOLEAN DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS deleted_at DATETIME(6),
+        ADD COLUMN IF NOT EXISTS folder_id INT,
+        ADD CONSTRAINT fk_conversations_folder FOREIGN KEY IF NOT EXISTS (folder_id)
+          REFERENCES folders(id) ON DELETE SET NULL;
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS conversation_tags (
+        conversation_id INT NOT NULL,
+        tag_id INT NOT NULL,
+        PRIMARY KEY (conversation_id, tag_id),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(conversation_id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS messages (
+        id VARCHAR(64) PRIMARY KEY,
+        seq INT NOT NULL AUTO_INCREMENT UNIQUE,
+        conversation_id INT NOT NULL,
+        parent_id VARCHAR(64),
+        role VARCHAR(16) NOT NULL,
+        content MEDIUMTEXT NOT NULL,
+        timestamp VARCHAR(32) NOT NULL,
+        stopped BOOLEAN DEFAULT FALSE,
+        feedback_rating VARCHAR(8),
+        feedback_reason TEXT,
+        feedback_at VARCHAR(32),
+        INDEX idx_messages_conversation (conversation_id),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(conversation_id) ON DELETE CASCADE
+      );
+    """)
+
+    cursor.execute("""
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS feedback_rating VARCHAR(8),
+        ADD COLUMN IF NOT EXISTS feedback_reason TEXT,
+        ADD COLUMN IF NOT EXISTS feedback_at VARCHAR(32);
+    """)
+
+    cursor.execute("""
+      CREATE TABLE IF NOT EXISTS shared_links (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        token VARCHAR(64) NOT NULL UNIQUE,
+        user_id INT NOT NULL,
+        conversation_id INT NOT NULL,
+        title VARCHAR(255),
+        snapshot MEDIUMTEXT NOT NULL,
+        created_at DATETIME(6) NOT NULL,
+        expires_at DATETIME(6),
+        revoked_at DATETIME(6),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(conversation_id) ON DELETE CASCADE
+      );
+    """)
+
+    migrate_message_blobs(cursor)
+
+    # Backfill activity times for conversations from before last_message_at
+    cursor.execute("""
+      UPDATE conversations c SET last_message_at = COALESCE(
+        (SELECT MAX(CAST(m.timestamp AS DATETIME(6))) FROM messages m WHERE m.conversation_id = c.conversation_id),
+        c.timestamp
+      ) WHERE c.last_message_at IS NULL;
+    """)
     
     conn.commit()
     print("Database initialized and tables ensured.")
@@ -1,19 +1,28 @@
-from fastapi import APIRouter, HTTPException, status, Request, Depends
+from fastapi import APIRouter, HTTPException, status, Request, Response, Depends, Header, BackgroundTasks
 from fastapi.responses import JSONResponse, StreamingResponse
-from tasksapi.crud.user import create_user, verify_user_login, get_user_by_username, UserCreate, UserLogin, save_user_token, clear_user_token
-from tasksapi.utils.utils import create_access_token, get_current_user
-from pydantic import BaseModel
-from tasksapi.crud.conversations import create_conversation, get_conversation, delete_conversation
+from tasksapi.crud.user import create_user, verify_user_login, get_user_by_username, get_user_by_id, get_user_by_email, update_user, set_email_verified, UserCreate, UserLogin, UserUpdate, save_user_token, clear_user_token, create_refresh_token, use_refresh_token, revoke_refresh_tokens
+from tasksapi.crud.password_resets import create_password_reset, use_password_reset, PASSWORD_RESET_EXPIRE_MINUTES
+from tasksapi.crud.email_verifications import create_email_verification, use_email_verification, EMAIL_VERIFICATION_EXPIRE_HOURS
+from tasksapi.utils.utils import create_access_token, get_current_user, set_auth_cookies, clear_auth_cookies, verify_csrf, REFRESH_COOKIE
+from tasksapi.utils.streams import ChatStream, create_stream, get_stream, parse_event_id
+from tasksapi.utils.mailer import send_email, frontend_link
+from pydantic import BaseModel, Field
+from tasksapi.crud.conversations import create_conversation, get_conversation, delete_conversation, delete_conversations, update_conversations, new_message, get_active_path, get_latest_leaf, conversation_view, get_first_messages, save_message, set_active_message, set_message_feedback, search_messages, update_conversation, set_generated_title, import_conversation, FEEDBACK_RATINGS, TITLE_MAX_LENGTH, TRASH_RETENTION_DAYS
 from google import genai
 from google.genai import types
-from datetime import datetime
+from datetime import datetime, timedelta
 from db.db import engine
-from sqlmodel import Session, select
+from sqlmodel import Session, select, or_, and_
 from tasksapi.crud.conversations import Conversation as ConversationModel
-from fastapi import Path
+from tasksapi.crud.shares import create_share, list_shares, update_share, get_shared_snapshot
+from tasksapi.crud.folders import list_folders, get_folder, create_folder, update_folder, delete_folder, is_descendant, FOLDER_NAME_MAX_LENGTH
+from tasksapi.crud.tags import ConversationTag, list_tags, get_tag_by_name, get_user_tag_ids, create_tag, update_tag, delete_tag, get_conversation_tag_ids, set_conversation_tags, tag_conversations, untag_conversations, TAG_COLORS, TAG_NAME_MAX_LENGTH
+from fastapi import Path, Query
 import json
+import base64
 import asyncio
 import os
+from typing import Optional
 from config import settings
 
 router = APIRouter()
@@ -34,7 +43,8 @@ async def get_current_user_info(current_user: str = Depends(get_current_user)):
             user_info_dict = {
                 "user_id": user_info['user_id'],
                 "username": user_info['username'],
-                "emailaddress": user_info['emailaddress']
+                "emailaddress": user_info['emailaddress'],
+                "email_verified": user_info['email_verified']
             }
             return {"user": user_info_dict}
         else:
@@ -42,7 +52,22 @@ async def get_current_user_info(current_user: str = Depends(get_current_user)):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
-async def register_user(user_data: UserCreate):
+def send_verification_email(user: dict):
+    """Email a link that confirms the address; a failure is logged, the user can ask again"""
+    token = create_email_verification(user["user_id"])
+    body = (
+        f"Hi {user['username']},\n\n"
+        f"Welcome to Healthcare Chatbot. To confirm this is your email address and start "
+        f"using your account, open this link within {EMAIL_VERIFICATION_EXPIRE_HOURS} hours:\n\n"
+        f"{frontend_link(f'/verify/{token}')}\n\n"
+        f"If you didn't sign up, ignore this email.\n"
+    )
+    try:
+        send_email(user["emailaddress"], "Verify your email address", body)
+    except Exception as e:
+        print(f"[DEBUG] Failed to send verification email to user {user['user_id']}: {e}")
+
+async def register_user(user_data: UserCreate, background_tasks: BackgroundTasks):
     try:
         # Basic validation
         if len(user_data.username) < 3:
@@ -59,7 +84,8 @@ async def register_user(user_data: UserCreate):
         result = create_user(user_data)
         
         if result:
-            return {"message": "User registered successfully", "user": result}
+            background_tasks.add_task(send_verification_email, result)
+            return {"message": "User registered successfully. Check your email to verify your address.", "user": result}
         else:
             raise HTTPException(status_code=500, detail="Failed to register user")
     except HTTPException:
@@ -68,11 +94,15 @@ async def register_user(user_data: UserCreate):
         raise HTTPException(status_code=500, detail=str(e))
 
 
-async def login_user(login_data: UserLogin):
+async def login_user(login_data: UserLogin, response: Response):
     try:
         result = verify_user_login(login_data.username, login_data.password)
         
         if result:
+            # Unverified accounts can't sign in until the emailed link is opened
+            if not result["email_verified"]:
+                raise HTTPException(status_code=403, detail="Please verify your email address before logging in")
+
             # Create access token
             access_token = create_access_token(
                 data={"sub": result["username"], "user_id": result["user_id"]}
@@ -80,12 +110,12 @@ async def login_user(login_data: UserLogin):
             
             # Save token to database
             save_user_token(result["user_id"], access_token)
+            # Tokens travel in httpOnly cookies only, out of reach of page scripts
+            set_auth_cookies(response, access_token, create_refresh_token(result["user_id"]))
             
             return {
                 "message": "Login successful",
-                "user": result,
-                "access_token": access_token,
-                "token_type": "bearer"
+                "user": result
             }
         else:
             raise HTTPException(status_code=401, detail="Invalid username or password")
@@ -94,19 +124,110 @@ async def login_user(login_data: UserLogin):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
-async def logout_user(current_user: str = Depends(get_current_user)):
+async def refresh_access_token(request: Request, response: Response):
+    """Trade the refresh cookie for a new access token and a new refresh token.
+    The old refresh token stops working."""
+    verify_csrf(request)
+    refresh_token = request.cookies.get(REFRESH_COOKIE)
+    user_id = use_refresh_token(refresh_token) if refresh_token else None
+    user = get_user_by_id(user_id) if user_id else None
+    if not user:
+        raise HTTPException(status_code=401, detail="Invalid or expired refresh token")
+
+    access_token = create_access_token(
+        data={"sub": user["username"], "user_id": user["user_id"]}
+    )
+    save_user_token(user["user_id"], access_token)
+    set_auth_cookies(response, access_token, create_refresh_token(user["user_id"]))
+
+    return {"message": "Session renewed"}
+
+async def logout_user(response: Response, current_user: str = Depends(get_current_user)):
     """Logout user by clearing their token"""
     try:
         user_info = get_user_by_username(current_user)
         if user_info:
             # Clear token from database
             clear_user_token(user_info["user_id"])
+            revoke_refresh_tokens(user_info["user_id"])
+            clear_auth_cookies(response)
             return {"message": "Logout successful"}
         else:
             raise HTTPException(status_code=404, detail="User not found")
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+class VerifyEmailRequest(BaseModel):
+    token: str
+
+class ResendVerificationRequest(BaseModel):
+    emailaddress: str
+
+async def verify_email(request: VerifyEmailRequest):
+    user_id = use_email_verification(request.token)
+    if not user_id or not set_email_verified(user_id):
+        raise HTTPException(status_code=400, detail="This verification link is invalid or has expired")
+    return {"message": "Email address verified. You can now log in."}
+
+async def resend_verification_email(request: ResendVerificationRequest, background_tasks: BackgroundTasks):
+    """Send a new verification link. The answer is the same whether or not the
+    address has an unverified account."""
+    user = get_user_by_email(request.emailaddress.strip())
+    if user and not user["email_verified"]:
+        # Sent after responding, so the response time doesn't tell either
+        background_tasks.add_task(send_verification_email, user)
+    return {"message": "If an unverified account uses that address, a new link has been sent to it"}
+
+class PasswordResetRequest(BaseModel):
+    emailaddress: str
+
+class PasswordResetConfirmRequest(BaseModel):
+    token: str
+    password: str
+
+def send_password_reset_email(user: dict):
+    """Email a link for choosing a new password; a failure is logged, the user can ask again"""
+    token = create_password_reset(user["user_id"])
+    body = (
+        f"Hi {user['username']},\n\n"
+        f"Someone asked to reset the password of your Healthcare Chatbot account. "
+        f"To choose a new one, open this link within {PASSWORD_RESET_EXPIRE_MINUTES} minutes:\n\n"
+        f"{frontend_link(f'/reset-password/{token}')}\n\n"
+        f"If it wasn't you, ignore this email; your password stays the same.\n"
+    )
+    try:
+        send_email(user["emailaddress"], "Reset your password", body)
+    except Exception as e:
+        print(f"[DEBUG] Failed to send password reset email to user {user['user_id']}: {e}")
+
+async def request_password_reset(request: PasswordResetRequest, background_tasks: BackgroundTasks):
+    """Email a one-time link for choosing a new password.
+    The answer is the same whether or not the address has an account."""
+    user = get_user_by_email(request.emailaddress.strip())
+    if user:
+        # Sent after responding, so the response time doesn't tell either
+        background_tasks.add_task(send_password_reset_email, user)
+
+    return {"message": "If an account uses that address, a reset link has been sent to it"}
+
+async def confirm_password_reset(request: PasswordResetConfirmRequest):
+    """Set a new password with a reset token. Every session of the account is ended."""
+    if len(request.password) < 6:
+        raise HTTPException(status_code=400, detail="Password must be at least 6 characters long")
+
+    user_id = use_password_reset(request.token)
+    user = get_user_by_id(user_id) if user_id else None
+    if not user:
+        raise HTTPException(status_code=400, detail="This reset link is invalid or has expired")
+
+    update_user(user["user_id"], UserUpdate(password=request.password, emailaddress=user["emailaddress"]))
+    # The reset link reached this address, which proves it belongs to the user
+    set_email_verified(user["user_id"])
+    clear_user_token(user["user_id"])
+    revoke_refresh_tokens(user["user_id"])
+
+    return {"message": "Password updated. You can now log in."}
+
 
 class ConversationCreateRequest(BaseModel):
     first_message: str
@@ -115,46 +236,168 @@ class ConversationResponse(BaseModel):
     conversation_id: int
     user_id: int
     timestamp: str
+    title: Optional[str] = None
     messages: list
+    message_tree: list = []
+    active_message_id: Optional[str] = None
+
+# The list cursor is the (pinned, last_message_at, id) of the last conversation on
+# the previous page, so conversations becoming active meanwhile don't shift later pages
+def encode_conversation_cursor(conv: ConversationModel) -> str:
+    raw = f"{int(conv.pinned)}|{conv.last_message_at.isoformat()}|{conv.conversation_id}"
+    return base64.urlsafe_b64encode(raw.encode()).decode()
+
+def decode_conversation_cursor(cursor: str) -> Optional[tuple[bool, datetime, int]]:
+    try:
+        pinned, timestamp, conversation_id = base64.urlsafe_b64decode(cursor.encode()).decode().split("|")
+        return pinned == "1", datetime.fromisoformat(timestamp), int(conversation_id)
+    except ValueError:
+        return None
 
 @router.get("/conversations")
 async def get_user_conversations(
+    cursor: Optional[str] = Query(default=None),
+    limit: int = Query(default=30, ge=1, le=100),
+    archived: bool = Query(default=False),
+    deleted: bool = Query(default=False),
+    folder_id: Optional[int] = Query(default=None),
+    tag_id: list[int] = Query(default=[]),
     current_username: str = Depends(get_current_user)
 ):
+    """One page of the user's conversations, pinned first, then most recently active.
+    `folder_id` limits it to one folder, and each `tag_id` to conversations with that tag."""
     user = get_user_by_username(current_username)
     if not user:
         raise HTTPException(status_code=404, detail="User not found")
+
+    after = None
+    if cursor:
+        after = decode_conversation_cursor(cursor)
+        if not after:
+            raise HTTPException(status_code=400, detail="Invalid cursor")
     
     try:
         with Session(engine) as session:
             statement = select(ConversationModel).where(
                 ConversationModel.user_id == user["user_id"]
-            ).order_by(ConversationModel.timestamp.desc())
+            )
+            # The trash holds deleted conversations whether they were archived or not
+            if deleted:
+                statement = statement.where(ConversationModel.deleted_at.is_not(None))
+            else:
+                statement = statement.where(
+                    ConversationModel.deleted_at.is_(None),
+                    ConversationModel.archived == archived
+                )
+            if folder_id is not None:
+                statement = statement.where(ConversationModel.folder_id == folder_id)
+            for required_tag in tag_id:
+                statement = statement.where(ConversationModel.conversation_id.in_(
+                    select(ConversationTag.conversation_id).where(ConversationTag.tag_id == required_tag)
+                ))
+            if after:
+                after_pinned, after_time, after_id = after
+                statement = statement.where(or_(
+                    ConversationModel.pinned < after_pinned,
+                    and_(
+                        ConversationModel.pinned == after_pinned,
+                        or_(
+                            ConversationModel.last_message_at < after_time,
+                            and_(
+                                ConversationModel.last_message_at == after_time,
+                                ConversationModel.conversation_id < after_id
+                            )
+                        )
+                    )
+                ))
+            statement = statement.order_by(
+                ConversationModel.pinned.desc(),
+                ConversationModel.last_message_at.desc(),
+                ConversationModel.conversation_id.desc()
+            ).limit(limit + 1)
             conversations = session.exec(statement).all()
+
+            has_more = len(conversations) > limit
+            conversations = conversations[:limit]
+            conversation_ids = [conv.conversation_id for conv in conversations]
+            first_messages = get_first_messages(conversation_ids)
+            tag_ids = get_conversation_tag_ids(conversation_ids)
             
             result = []
             for conv in conversations:
-                # Parse messages to get first message
-                messages = json.loads(conv.messages) if conv.messages else []
-                first_message = ""
-                if messages:
-                    # Find first user message
-                    for msg in messages:
-                        if msg.get("role") == "user":
-                            first_message = msg.get("content", "")
-                            break
-                
                 result.append({
                     "conversation_id": conv.conversation_id,
                     "user_id": conv.user_id,
                     "timestamp": conv.timestamp.isoformat(),
-                    "first_message": first_message
+                    "title": conv.title,
+                    "last_message_at": conv.last_message_at.isoformat(),
+                    "pinned": conv.pinned,
+                    "archived": conv.archived,
+                    "deleted_at": conv.deleted_at.isoformat() if conv.deleted_at else None,
+                    "folder_id": conv.folder_id,
+                    "tag_ids": tag_ids[conv.conversation_id],
+                    "first_message": first_messages.get(conv.conversation_id, "")
                 })
-            
-            return result
+
+            last = conversations[-1] if conversations else None
+            return {
+                "conversations": result,
+                "next_cursor": encode_conversation_cursor(last) if has_more else None,
+                "trash_retention_days": TRASH_RETENTION_DAYS
+            }
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Error fetching conversations: {str(e)}")
 
+@router.get("/conversations/search")
+async def search_user_conversations(
+    q: str = Query(..., min_length=1, max_length=200),
+    limit: int = Query(default=20, ge=1, le=50),
+    current_username: str = Depends(get_current_user)
+):
+    """Find messages across all of the user's conversations"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    try:
+        return {"query": q, "results": search_messages(user["user_id"], q, limit)}
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=f"Error searching conversations: {str(e)}")
+
+def generate_title(question: str, answer: str) -> str:
+    """Ask the model for a short title, falling back to the question's first words"""
+    prompt = (
+        "Write a title of at most 6 words for a conversation that starts with the "
+        "exchange below. Reply with the title only, without quotes.\n\n"
+        f"user: {question[:1000]}\nassistant: {answer[:1000]}"
+    )
+    title = ""
+    try:
+        response = client.models.generate_content(
+            model=MODEL,
+            contents=prompt,
+            config=types.GenerateContentConfig()
+        )
+        lines = (response.text or "").strip().splitlines()
+        title = lines[0].strip().strip('"*#').strip() if lines else ""
+    except Exception as e:
+        print(f"[DEBUG] Title generation failed: {e}")
+    if not title:
+        words = question.split()
+        title = " ".join(words[:6]) + ("..." if len(words) > 6 else "")
+    return title[:100]
+
+async def ensure_title(conv: dict, question: str, answer: str) -> Optional[str]:
+    """Title an untitled conversation after an exchange; returns the new title, if any"""
+    if conv.get("title") or not answer:
+        return None
+    # The model call blocks, so keep it off the event loop
+    title = await asyncio.to_thread(generate_title, question, answer)
+    if not set_generated_title(conv["conversation_id"], title):
+        return None
+    conv["title"] = title
+    return title
+
 @router.post("/conversations", response_model = ConversationResponse)
 async def start_conversation(
     request: ConversationCreateRequest,
@@ -167,33 +410,24 @@ async def start_conversation(
     conv = create_conversation(user_id = user["user_id"], first_message = request.first_message)
 
     try:
-        gemini_response = client.models.generate_content(
+        gemini_response = await asyncio.to_thread(
+            client.models.generate_content,
             model=MODEL,
             contents=request.first_message,
             config=types.GenerateContentConfig()
         )
 
-        conv["messages"].append({
-            "role": "assistant",
-            "content": gemini_response.text,
-            "timestamp": datetime.utcnow().isoformat()
-        })
-
-        with Session(engine) as session:
-            statement = select(ConversationModel).where(
-                ConversationModel.conversation_id == conv["conversation_id"],
-                ConversationModel.user_id == user["user_id"]
-            )
-            db_conv = session.exec(statement).first()
-            if db_conv:
-                db_conv.messages = json.dumps(conv["messages"])
-                session.add(db_conv)
-                session.commit()
+        assistant_message = new_message("assistant", gemini_response.text, conv["active_message_id"])
+        conv["messages"].append(assistant_message)
+        conv["active_message_id"] = assistant_message["id"]
+        save_message(conv["conversation_id"], assistant_message)
+        set_active_message(conv["conversation_id"], user["user_id"], assistant_message["id"])
+        await ensure_title(conv, request.first_message, assistant_message["content"])
 
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Gemini API error: {str(e)}")
 
-    return conv
+    return conversation_view(conv)
 
 @router.get("/conversations/{conversation_id}", response_model = ConversationResponse)
 async def read_conversation(
@@ -208,24 +442,492 @@ async def read_conversation(
     if not conv:
         raise HTTPException(status_code = 404, detail = "Conversation not found")
     
-    return conv
+    return conversation_view(conv)
+
+class ConversationUpdateRequest(BaseModel):
+    # A blank title clears it, so the conversation is named automatically again
+    title: Optional[str] = None
+    pinned: Optional[bool] = None
+    archived: Optional[bool] = None
+    # null takes the conversation out of its folder
+    folder_id: Optional[int] = None
+    # Replaces all of the conversation's tags
+    tag_ids: Optional[list[int]] = None
+
+@router.patch("/conversations/{conversation_id}")
+async def update_conversation_endpoint(
+    conversation_id: int = Path(...),
+    request: ConversationUpdateRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    updates = request.model_dump(exclude_unset=True)
+    if "title" in updates:
+        title = (updates["title"] or "").strip()
+        if len(title) > TITLE_MAX_LENGTH:
+            raise HTTPException(status_code=400, detail=f"Title must be at most {TITLE_MAX_LENGTH} characters")
+        updates["title"] = title or None
+    for flag in ("pinned", "archived"):
+        if flag in updates and updates[flag] is None:
+            del updates[flag]
+    # Archiving moves a conversation out of the way, pinned or not
+    if updates.get("archived"):
+        updates["pinned"] = False
+    if updates.get("folder_id") is not None and not get_folder(updates["folder_id"], user["user_id"]):
+        raise HTTPException(status_code=400, detail="Folder not found")
+    tag_ids = updates.pop("tag_ids", None)
+    if tag_ids is not None:
+        tag_ids = list(dict.fromkeys(tag_ids))
+        if len(get_user_tag_ids(user["user_id"], tag_ids)) != len(tag_ids):
+            raise HTTPException(status_code=400, detail="Tag not found")
+    elif not updates:
+        raise HTTPException(status_code=400, detail="Nothing to update")
+
+    if updates:
+        result = update_conversation(conversation_id, user["user_id"], **updates)
+    elif get_conversation(conversation_id, user["user_id"]):
+        result = {"conversation_id": conversation_id}
+    else:
+        result = None
+    if not result:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+    if tag_ids is not None:
+        result["tag_ids"] = set_conversation_tags(conversation_id, tag_ids)
+    return result
 
 @router.delete("/conversations/{conversation_id}")
 async def delete_conversation_endpoint(
     conversation_id: int,
+    permanent: bool = Query(default=False),
     current_username: str = Depends(get_current_user)
 ):
-
+    """Move a conversation to the trash, or with `permanent` delete it from the trash"""
     user = get_user_by_username(current_username)
     if not user:
         raise HTTPException(status_code=404, detail="User not found")
 
-    success = delete_conversation(conversation_id, user["user_id"])
-    if not success:
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv:
         raise HTTPException(status_code=404, detail="Conversation not found or cannot delete")
 
-    return {"message": "Conversation deleted successfully"}
+    if permanent:
+        if not conv["deleted_at"]:
+            raise HTTPException(status_code=400, detail="Only conversations in the trash can be deleted permanently")
+        delete_conversation(conversation_id, user["user_id"])
+        return {"message": "Conversation deleted permanently"}
+
+    update_conversation(conversation_id, user["user_id"], deleted_at=datetime.utcnow(), pinned=False)
+    return {"message": "Conversation moved to trash", "retention_days": TRASH_RETENTION_DAYS}
+
+@router.post("/conversations/{conversation_id}/restore")
+async def restore_conversation_endpoint(
+    conversation_id: int = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    """Take a conversation back out of the trash"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    result = update_conversation(conversation_id, user["user_id"], deleted_at=None)
+    if not result:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    return {"message": "Conversation restored"}
+
+
+# Field changes for each batch action; permanent deletion is handled separately
+BATCH_ACTIONS = {
+    "delete": lambda: {"deleted_at": datetime.utcnow(), "pinned": False},
+    "restore": lambda: {"deleted_at": None},
+    "archive": lambda: {"archived": True, "pinned": False},
+    "unarchive": lambda: {"archived": False},
+    "pin": lambda: {"pinned": True},
+    "unpin": lambda: {"pinned": False},
+}
+MAX_BATCH_SIZE = 200
+
+class BatchRequest(BaseModel):
+    conversation_ids: list[int]
+    # One of BATCH_ACTIONS, "delete_permanently", "move", "tag" or "untag"
+    action: str
+    # Target of "move"; null takes the conversations out of their folders
+    folder_id: Optional[int] = None
+    # Tag added or removed by "tag" and "untag"
+    tag_id: Optional[int] = None
+
+@router.post("/conversations/batch")
+async def batch_update_conversations(
+    request: BatchRequest,
+    current_username: str = Depends(get_current_user)
+):
+    """Apply one action to many conversations; reports which ones failed"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conversation_ids = list(dict.fromkeys(request.conversation_ids))
+    if not conversation_ids:
+        raise HTTPException(status_code=400, detail="No conversations given")
+    if len(conversation_ids) > MAX_BATCH_SIZE:
+        raise HTTPException(status_code=400, detail=f"At most {MAX_BATCH_SIZE} conversations per batch")
+
+    if request.action == "delete_permanently":
+        succeeded = delete_conversations(conversation_ids, user["user_id"])
+        error = "Conversation not found or not in the trash"
+    elif request.action == "move":
+        if request.folder_id is not None and not get_folder(request.folder_id, user["user_id"]):
+            raise HTTPException(status_code=400, detail="Folder not found")
+        succeeded = update_conversations(conversation_ids, user["user_id"], folder_id=request.folder_id)
+        error = "Conversation not found"
+    elif request.action in ("tag", "untag"):
+        if request.tag_id is None or not get_user_tag_ids(user["user_id"], [request.tag_id]):
+            raise HTTPException(status_code=400, detail="Tag not found")
+        apply = tag_conversations if request.action == "tag" else untag_conversations
+        succeeded = apply(conversation_ids, user["user_id"], request.tag_id)
+        error = "Conversation not found"
+    elif request.action in BATCH_ACTIONS:
+        succeeded = update_conversations(conversation_ids, user["user_id"], **BATCH_ACTIONS[request.action]())
+        error = "Conversation not found"
+    else:
+        raise HTTPException(status_code=400, detail=f"Unknown action '{request.action}'")
+
+    print(f"[DEBUG] Batch {request.action}: {len(succeeded)}/{len(conversation_ids)} conversations")
+    return {
+        "action": request.action,
+        "succeeded": succeeded,
+        "failed": [
+            {"conversation_id": conversation_id, "error": error}
+            for conversation_id in conversation_ids if conversation_id not in succeeded
+        ]
+    }
+
+
+class ImportFeedback(BaseModel):
+    rating: str
+    reason: Optional[str] = None
+    timestamp: Optional[str] = None
+
+class ImportMessage(BaseModel):
+    id: str
+    parent_id: Optional[str] = None
+    role: str
+    content: str
+    timestamp: str
+    stopped: bool = False
+    feedback: Optional[ImportFeedback] = None
+
+class ImportConversation(BaseModel):
+    # Same shape as GET /conversations/{id}; ids are replaced on import
+    timestamp: str
+    title: Optional[str] = None
+    # The active branch, used when the archive has no message_tree
+    messages: list[ImportMessage] = []
+    message_tree: Optional[list[ImportMessage]] = None
+    active_message_id: Optional[str] = None
+
+class ImportRequest(BaseModel):
+    conversations: list[ImportConversation]
+
+MAX_IMPORT_SIZE = 100
+
+@router.post("/conversations/import")
+async def import_conversations(
+    request: ImportRequest,
+    current_username: str = Depends(get_current_user)
+):
+    """Create conversations from an export archive, keeping their original timestamps.
+    Each conversation is imported on its own; the ones that can't be are reported by index."""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    if not request.conversations:
+        raise HTTPException(status_code=400, detail="No conversations given")
+    if len(request.conversations) > MAX_IMPORT_SIZE:
+        raise HTTPException(status_code=400, detail=f"At most {MAX_IMPORT_SIZE} conversations per import")
+
+    created = []
+    failed = []
+    for index, conversation in enumerate(request.conversations):
+        messages = conversation.message_tree or conversation.messages
+        if not messages:
+            failed.append({"index": index, "error": "Conversation has no messages"})
+            continue
+        if any(message.role not in ("user", "assistant") for message in messages):
+            failed.append({"index": index, "error": "Messages must have the role 'user' or 'assistant'"})
+            continue
+        try:
+            conversation_id = import_conversation(
+                user["user_id"],
+                conversation.timestamp,
+                (conversation.title or "").strip(),
+                [message.model_dump() for message in messages],
+                conversation.active_message_id
+            )
+            created.append({"index": index, "conversation_id": conversation_id})
+        except ValueError as e:
+            failed.append({"index": index, "error": str(e)})
+
+    print(f"[DEBUG] Imported {len(created)}/{len(request.conversations)} conversations")
+    return {"created": created, "failed": failed}
+
+
+class ShareRequest(BaseModel):
+    # Days until the link stops working; null for a link that never expires
+    expires_in_days: Optional[int] = Field(default=None, ge=1, le=365)
+
+def share_expiry(expires_in_days: Optional[int]) -> Optional[datetime]:
+    return datetime.utcnow() + timedelta(days=expires_in_days) if expires_in_days else None
+
+@router.post("/conversations/{conversation_id}/shares")
+async def create_share_link(
+    conversation_id: int = Path(...),
+    request: ShareRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Share a read-only snapshot of the conversation's active branch as it is now"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    # Feedback stays private; only what was said is shared
+    messages = [
+        {key: message[key] for key in ("id", "role", "content", "timestamp", "stopped") if key in message}
+        for message in get_active_path(conv["messages"], conv.get("active_message_id"))
+    ]
+    if not messages:
+        raise HTTPException(status_code=400, detail="Conversation has no messages")
+
+    expires_in_days = request.expires_in_days if request else None
+    return create_share(user["user_id"], conversation_id, conv.get("title"), messages, share_expiry(expires_in_days))
+
+@router.get("/shares")
+async def get_share_links(
+    conversation_id: Optional[int] = Query(default=None),
+    current_username: str = Depends(get_current_user)
+):
+    """The user's share links, optionally for one conversation"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    return {"shares": list_shares(user["user_id"], conversation_id)}
+
+@router.patch("/shares/{share_id}")
+async def update_share_link(
+    share_id: int = Path(...),
+    request: ShareRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Set a new expiry, counted from now"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    result = update_share(share_id, user["user_id"], expires_at=share_expiry(request.expires_in_days if request else None))
+    if not result:
+        raise HTTPException(status_code=404, detail="Share link not found")
+    return result
+
+@router.delete("/shares/{share_id}")
+async def revoke_share_link(
+    share_id: int = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    """Stop a link from working; it stays listed as revoked"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    result = update_share(share_id, user["user_id"], revoked_at=datetime.utcnow())
+    if not result:
+        raise HTTPException(status_code=404, detail="Share link not found")
+    return result
+
+@router.get("/shared/{token}")
+async def read_shared_conversation(token: str = Path(..., max_length=64)):
+    """Public, read-only view of a shared snapshot; needs no login"""
+    snapshot = get_shared_snapshot(token)
+    if not snapshot:
+        raise HTTPException(status_code=404, detail="This link is invalid, expired or has been revoked")
+    return snapshot
+
+
+class FolderCreateRequest(BaseModel):
+    name: str
+    parent_id: Optional[int] = None
+
+class FolderUpdateRequest(BaseModel):
+    name: Optional[str] = None
+    # null moves the folder to the top level
+    parent_id: Optional[int] = None
+
+def clean_folder_name(name: Optional[str]) -> str:
+    name = (name or "").strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Folder name cannot be empty")
+    if len(name) > FOLDER_NAME_MAX_LENGTH:
+        raise HTTPException(status_code=400, detail=f"Folder name must be at most {FOLDER_NAME_MAX_LENGTH} characters")
+    return name
+
+@router.get("/folders")
+async def get_user_folders(current_username: str = Depends(get_current_user)):
+    """All of the user's folders; the client builds the tree from `parent_id`"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    return {"folders": list_folders(user["user_id"])}
+
+@router.post("/folders")
+async def create_folder_endpoint(
+    request: FolderCreateRequest,
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    name = clean_folder_name(request.name)
+    if request.parent_id is not None and not get_folder(request.parent_id, user["user_id"]):
+        raise HTTPException(status_code=400, detail="Parent folder not found")
+
+    return create_folder(user["user_id"], name, request.parent_id)
+
+@router.patch("/folders/{folder_id}")
+async def update_folder_endpoint(
+    folder_id: int = Path(...),
+    request: FolderUpdateRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Rename a folder or move it under another one"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    updates = request.model_dump(exclude_unset=True)
+    if "name" in updates:
+        updates["name"] = clean_folder_name(updates["name"])
+    parent_id = updates.get("parent_id")
+    if parent_id is not None:
+        if not get_folder(parent_id, user["user_id"]):
+            raise HTTPException(status_code=400, detail="Parent folder not found")
+        if is_descendant(parent_id, folder_id, user["user_id"]):
+            raise HTTPException(status_code=400, detail="A folder cannot be moved into itself")
+    if not updates:
+        raise HTTPException(status_code=400, detail="Nothing to update")
+
+    result = update_folder(folder_id, user["user_id"], **updates)
+    if not result:
+        raise HTTPException(status_code=404, detail="Folder not found")
+    return result
+
+@router.delete("/folders/{folder_id}")
+async def delete_folder_endpoint(
+    folder_id: int = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    """Delete a folder and its subfolders; their conversations are kept, unfiled"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    if not delete_folder(folder_id, user["user_id"]):
+        raise HTTPException(status_code=404, detail="Folder not found")
+    return {"message": "Folder deleted"}
+
+
+class TagCreateRequest(BaseModel):
+    name: str
+    color: str = "gray"
+
+class TagUpdateRequest(BaseModel):
+    name: Optional[str] = None
+    color: Optional[str] = None
+
+def clean_tag_name(name: Optional[str]) -> str:
+    name = (name or "").strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Tag name cannot be empty")
+    if len(name) > TAG_NAME_MAX_LENGTH:
+        raise HTTPException(status_code=400, detail=f"Tag name must be at most {TAG_NAME_MAX_LENGTH} characters")
+    return name
+
+def check_tag_color(color: str):
+    if color not in TAG_COLORS:
+        raise HTTPException(status_code=400, detail=f"Color must be one of: {', '.join(TAG_COLORS)}")
+
+@router.get("/tags")
+async def get_user_tags(current_username: str = Depends(get_current_user)):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    return {"tags": list_tags(user["user_id"]), "colors": list(TAG_COLORS)}
+
+@router.post("/tags")
+async def create_tag_endpoint(
+    request: TagCreateRequest,
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    name = clean_tag_name(request.name)
+    check_tag_color(request.color)
+    if get_tag_by_name(user["user_id"], name):
+        raise HTTPException(status_code=409, detail="A tag with this name already exists")
+
+    return create_tag(user["user_id"], name, request.color)
+
+@router.patch("/tags/{tag_id}")
+async def update_tag_endpoint(
+    tag_id: int = Path(...),
+    request: TagUpdateRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    updates = {name: value for name, value in request.model_dump(exclude_unset=True).items() if value is not None}
+    if "name" in updates:
+        updates["name"] = clean_tag_name(updates["name"])
+        existing = get_tag_by_name(user["user_id"], updates["name"])
+        if existing and existing["id"] != tag_id:
+            raise HTTPException(status_code=409, detail="A tag with this name already exists")
+    if "color" in updates:
+        check_tag_color(updates["color"])
+    if not updates:
+        raise HTTPException(status_code=400, detail="Nothing to update")
+
+    result = update_tag(tag_id, user["user_id"], **updates)
+    if not result:
+        raise HTTPException(status_code=404, detail="Tag not found")
+    return result
+
+@router.delete("/tags/{tag_id}")
+async def delete_tag_endpoint(
+    tag_id: int = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    """Delete a tag and remove it from every conversation"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
 
+    if not delete_tag(tag_id, user["user_id"]):
+        raise HTTPException(status_code=404, detail="Tag not found")
+    return {"message": "Tag deleted"}
 
 class MessageRequest(BaseModel):
     content: str
@@ -241,45 +943,158 @@ async def add_message_to_conversation(
         raise HTTPException(status_code=404, detail="User not found")
 
     conv = get_conversation(conversation_id, user["user_id"])
-    if not conv:
+    if not conv or conv["deleted_at"]:
         raise HTTPException(status_code=404, detail="Conversation not found")
 
-    conv["messages"].append({
-        "role": "user",
-        "content": request.content,
-        "timestamp": datetime.utcnow().isoformat()
-    })
+    path = get_active_path(conv["messages"], conv["active_message_id"])
+    user_message = new_message("user", request.content, path[-1]["id"] if path else None)
+    conv["messages"].append(user_message)
+    path.append(user_message)
 
-    history_prompt = "\n".join(f"{m['role']}: {m['content']}" for m in conv["messages"])
+    history_prompt = "\n".join(f"{m['role']}: {m['content']}" for m in path)
     
     try:
-        gemini_response = client.models.generate_content(
+        gemini_response = await asyncio.to_thread(
+            client.models.generate_content,
             model=MODEL,
             contents=history_prompt,
             config=types.GenerateContentConfig()
         )
 
-        conv["messages"].append({
-            "role": "assistant",
-            "content": gemini_response.text,
-            "timestamp": datetime.utcnow().isoformat()
-        })
-
-        with Session(engine) as session:
-            statement = select(ConversationModel).where(
-                ConversationModel.conversation_id == conversation_id,
-                ConversationModel.user_id == user["user_id"]
-            )
-            db_conv = session.exec(statement).first()
-            if db_conv:
-                db_conv.messages = json.dumps(conv["messages"])
-                session.add(db_conv)
-                session.commit()
+        assistant_message = new_message("assistant", gemini_response.text, user_message["id"])
+        conv["messages"].append(assistant_message)
+        conv["active_message_id"] = assistant_message["id"]
+        save_message(conversation_id, user_message)
+        save_message(conversation_id, assistant_message)
+        set_active_message(conversation_id, user["user_id"], assistant_message["id"])
+        await ensure_title(conv, request.content, assistant_message["content"])
 
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Gemini API error: {str(e)}")
 
-    return conv
+    return conversation_view(conv)
+
+SSE_HEADERS = {
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "*",
+}
+
+async def run_stream_generation(stream: ChatStream, conv: dict, user_message: dict, history_prompt: str):
+    """Generate the assistant reply into the stream buffer.
+
+    Runs as its own task so a dropped client connection doesn't lose the reply;
+    the client can reconnect and replay the buffered events.
+    """
+    assistant_message = new_message("assistant", "", user_message["id"])
+    full_content = ""
+    try:
+        print("[DEBUG] Starting streaming generation")
+        # Send user message first
+        stream.push({'type': 'user_message', 'message': user_message})
+        
+        # Start assistant message
+        stream.push({'type': 'assistant_start', 'message': assistant_message})
+        
+        print("[DEBUG] Calling Gemini API with streaming")
+        # Generate streaming response from Gemini; the call blocks, so run it in a
+        # thread to keep cancel and resume requests served meanwhile
+        config = types.GenerateContentConfig()
+        gemini_response = await asyncio.to_thread(
+            client.models.generate_content,
+            model=MODEL,
+            contents=history_prompt,
+            config=config
+        )
+        
+        # Since the library doesn't support streaming directly, we'll simulate it
+        response_text = gemini_response.text
+        
+        print("[DEBUG] Starting to process chunks from Gemini")
+        chunk_count = 0
+        
+        # Simulate streaming by sending the response in chunks
+        words = response_text.split()
+        chunk_size = 3  # Send 3 words at a time
+        
+        for i in range(0, len(words), chunk_size):
+            # The client pressed stop, so drop the rest of the reply
+            if stream.cancelled:
+                print("[DEBUG] Stream cancelled, stopping generation")
+                assistant_message["stopped"] = True
+                break
+
+            chunk_words = words[i:i + chunk_size]
+            chunk_text = " ".join(chunk_words)
+            if i + chunk_size < len(words):
+                chunk_text += " "
+            
+            chunk_count += 1
+            print(f"[DEBUG] Processing chunk {chunk_count}: {chunk_text[:50]}...")
+            full_content += chunk_text
+            stream.push({'type': 'assistant_chunk', 'content': chunk_text})
+            
+            # Small delay to simulate streaming
+            await asyncio.sleep(0.1)
+        
+        print(f"[DEBUG] Completed processing {chunk_count} chunks. Full content length: {len(full_content)}")
+        
+        # Complete assistant message; a reply stopped before any text is dropped
+        assistant_message["content"] = full_content
+        if full_content or not assistant_message.get("stopped"):
+            print("[DEBUG] Saving to database")
+            # Save to database
+            conv["messages"].append(assistant_message)
+            save_message(conv["conversation_id"], assistant_message)
+            set_active_message(conv["conversation_id"], conv["user_id"], assistant_message["id"])
+        
+        print("[DEBUG] Database save complete, sending completion signals")
+        # Send completion signal
+        stream.push({'type': 'assistant_complete', 'message': assistant_message})
+
+        # Name the conversation after its first exchange, once the reply is shown
+        if full_content and not assistant_message.get("stopped"):
+            title = await ensure_title(conv, user_message["content"], full_content)
+            if title:
+                stream.push({'type': 'conversation_title', 'title': title})
+
+        stream.push({'type': 'done'})
+        print("[DEBUG] Streaming complete")
+        
+    except Exception as e:
+        print(f"[ERROR] Exception in streaming function: {str(e)}")
+        import traceback
+        print(f"[ERROR] Traceback: {traceback.format_exc()}")
+        stream.push({'type': 'error', 'error': str(e)})
+    finally:
+        stream.finish()
+
+def start_reply_stream(conv: dict, user_message: dict) -> StreamingResponse:
+    """Append the user turn, make it the active branch and stream the assistant reply to it"""
+    conv["messages"].append(user_message)
+    return stream_reply_to(conv, user_message)
+
+def stream_reply_to(conv: dict, user_message: dict) -> StreamingResponse:
+    """Stream a new assistant reply below an existing user message"""
+    conv["active_message_id"] = user_message["id"]
+    # Persist the user turn right away so an interrupted reply can be reconciled
+    save_message(conv["conversation_id"], user_message)
+    set_active_message(conv["conversation_id"], conv["user_id"], user_message["id"])
+
+    # Prepare history for Gemini from the active branch only
+    path = get_active_path(conv["messages"], user_message["id"])
+    history_prompt = "\n".join(f"{m['role']}: {m['content']}" for m in path)
+    print(f"[DEBUG] History prompt: {history_prompt}")
+
+    stream = create_stream(conv["user_id"], conv["conversation_id"])
+    stream.task = asyncio.create_task(run_stream_generation(stream, conv, user_message, history_prompt))
+
+    return StreamingResponse(
+        stream.follow(),
+        media_type="text/event-stream",
+        headers=SSE_HEADERS
+    )
 
 @router.post("/conversations/{conversation_id}/messages/stream")
 async def add_message_to_conversation_stream(
@@ -293,109 +1108,202 @@ async def add_message_to_conversation_stream(
         raise HTTPException(status_code=404, detail="User not found")
 
     conv = get_conversation(conversation_id, user["user_id"])
-    if not conv:
+    if not conv or conv["deleted_at"]:
         raise HTTPException(status_code=404, detail="Conversation not found")
 
     print(f"[DEBUG] User message: {request.content}")
-    # Add user message to conversation
-    user_message = {
-        "role": "user",
-        "content": request.content,
-        "timestamp": datetime.utcnow().isoformat()
-    }
-    conv["messages"].append(user_message)
+    # Add user message to the end of the active branch
+    path = get_active_path(conv["messages"], conv["active_message_id"])
+    user_message = new_message("user", request.content, path[-1]["id"] if path else None)
+    return start_reply_stream(conv, user_message)
 
-    # Prepare history for Gemini
-    history_prompt = "\n".join(f"{m['role']}: {m['content']}" for m in conv["messages"])
-    print(f"[DEBUG] History prompt: {history_prompt}")
+@router.put("/conversations/{conversation_id}/messages/{message_id}/stream")
+async def edit_message_stream(
+    conversation_id: int = Path(...),
+    message_id: str = Path(...),
+    request: MessageRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Add an edited version of a user message as a new branch and stream a reply to it"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
 
-    async def generate_stream():
-        try:
-            print("[DEBUG] Starting streaming generation")
-            # Send user message first
-            yield f"data: {json.dumps({'type': 'user_message', 'message': user_message})}\n\n"
-            
-            # Start assistant message
-            assistant_message = {
-                "role": "assistant",
-                "content": "",
-                "timestamp": datetime.utcnow().isoformat()
-            }
-            yield f"data: {json.dumps({'type': 'assistant_start', 'message': assistant_message})}\n\n"
-            
-            print("[DEBUG] Calling Gemini API with streaming")
-            # Generate streaming response from Gemini
-            config = types.GenerateContentConfig()
-            gemini_response = client.models.generate_content(
-                model=MODEL,
-                contents=history_prompt,
-                config=config
-            )
-            
-            # Since the library doesn't support streaming directly, we'll simulate it
-            response_text = gemini_response.text
-            
-            print("[DEBUG] Starting to process chunks from Gemini")
-            full_content = ""
-            chunk_count = 0
-            
-            # Simulate streaming by sending the response in chunks
-            import time
-            words = response_text.split()
-            chunk_size = 3  # Send 3 words at a time
-            
-            for i in range(0, len(words), chunk_size):
-                chunk_words = words[i:i + chunk_size]
-                chunk_text = " ".join(chunk_words)
-                if i + chunk_size < len(words):
-                    chunk_text += " "
-                
-                chunk_count += 1
-                print(f"[DEBUG] Processing chunk {chunk_count}: {chunk_text[:50]}...")
-                full_content += chunk_text
-                yield f"data: {json.dumps({'type': 'assistant_chunk', 'content': chunk_text})}\n\n"
-                
-                # Small delay to simulate streaming
-                await asyncio.sleep(0.1)
-            
-            print(f"[DEBUG] Completed processing {chunk_count} chunks. Full content length: {len(full_content)}")
-            
-            # Complete assistant message
-            assistant_message["content"] = full_content
-            conv["messages"].append(assistant_message)
-            
-            print("[DEBUG] Saving to database")
-            # Save to database
-            with Session(engine) as session:
-                statement = select(ConversationModel).where(
-                    ConversationModel.conversation_id == conversation_id,
-                    ConversationModel.user_id == user["user_id"]
-                )
-                db_conv = session.exec(statement).first()
-                if db_conv:
-                    db_conv.messages = json.dumps(conv["messages"])
-                    session.add(db_conv)
-                    session.commit()
-            
-            print("[DEBUG] Database save complete, sending completion signals")
-            # Send completion signal
-            yield f"data: {json.dumps({'type': 'assistant_complete', 'message': assistant_message})}\n\n"
-            yield f"data: {json.dumps({'type': 'done'})}\n\n"
-            print("[DEBUG] Streaming complete")
-            
-        except Exception as e:
-            print(f"[ERROR] Exception in streaming function: {str(e)}")
-            import traceback
-            print(f"[ERROR] Traceback: {traceback.format_exc()}")
-            yield f"data: {json.dumps({'type': 'error', 'error': str(e)})}\n\n"
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    original = next((m for m in conv["messages"] if m["id"] == message_id), None)
+    if not original or original["role"] != "user":
+        raise HTTPException(status_code=400, detail="Only existing user messages can be edited")
+
+    print(f"[DEBUG] Editing message {message_id} of conversation {conversation_id}")
+    # The old version and everything below it stay as a sibling branch
+    user_message = new_message("user", request.content, original.get("parent_id"))
+    return start_reply_stream(conv, user_message)
+
+@router.post("/conversations/{conversation_id}/messages/{message_id}/regenerate/stream")
+async def regenerate_message_stream(
+    conversation_id: int = Path(...),
+    message_id: str = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    """Stream another reply to the same user turn; the old reply stays as a sibling"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    original = next((m for m in conv["messages"] if m["id"] == message_id), None)
+    if not original or original["role"] != "assistant":
+        raise HTTPException(status_code=400, detail="Only assistant replies can be regenerated")
+
+    user_message = next((m for m in conv["messages"] if m["id"] == original.get("parent_id")), None)
+    if not user_message:
+        raise HTTPException(status_code=400, detail="Reply has no user message to answer")
+
+    print(f"[DEBUG] Regenerating message {message_id} of conversation {conversation_id}")
+    return stream_reply_to(conv, user_message)
+
+class FeedbackRequest(BaseModel):
+    # "up", "down", or None to withdraw the vote
+    rating: Optional[str] = None
+    reason: Optional[str] = None
+
+@router.put("/conversations/{conversation_id}/messages/{message_id}/feedback")
+async def submit_message_feedback(
+    conversation_id: int = Path(...),
+    message_id: str = Path(...),
+    request: FeedbackRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    if request.rating is not None and request.rating not in FEEDBACK_RATINGS:
+        raise HTTPException(status_code=400, detail="Rating must be 'up' or 'down'")
+
+    feedback = set_message_feedback(conversation_id, message_id, request.rating, request.reason)
+    if feedback is None:
+        raise HTTPException(status_code=404, detail="Assistant message not found")
+
+    print(f"[DEBUG] Feedback on message {message_id}: {request.rating}")
+    return {"message_id": message_id, "feedback": feedback if request.rating else None}
 
+class ActiveMessageRequest(BaseModel):
+    message_id: str
+
+@router.put("/conversations/{conversation_id}/active", response_model=ConversationResponse)
+async def set_active_branch(
+    conversation_id: int = Path(...),
+    request: ActiveMessageRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Switch to the branch containing `message_id`, following its latest replies"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    if not any(m["id"] == request.message_id for m in conv["messages"]):
+        raise HTTPException(status_code=404, detail="Message not found")
+
+    conv["active_message_id"] = get_latest_leaf(conv["messages"], request.message_id)
+    set_active_message(conversation_id, user["user_id"], conv["active_message_id"])
+    return conversation_view(conv)
+
+class ForkRequest(BaseModel):
+    message_id: str
+
+@router.post("/conversations/{conversation_id}/fork", response_model=ConversationResponse)
+async def fork_conversation(
+    conversation_id: int = Path(...),
+    request: ForkRequest = None,
+    current_username: str = Depends(get_current_user)
+):
+    """Copy the history up to and including `message_id` into a new conversation.
+    The original is left untouched."""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    conv = get_conversation(conversation_id, user["user_id"])
+    if not conv or conv["deleted_at"]:
+        raise HTTPException(status_code=404, detail="Conversation not found")
+
+    if not any(m["id"] == request.message_id for m in conv["messages"]):
+        raise HTTPException(status_code=404, detail="Message not found")
+
+    # Ratings belong to the original record, so they aren't copied
+    history = [
+        {key: value for key, value in message.items() if key != "feedback"}
+        for message in get_active_path(conv["messages"], request.message_id)
+    ]
+    title = f"{conv['title']} (fork)" if conv.get("title") else None
+    fork_id = import_conversation(user["user_id"], datetime.utcnow().isoformat(), title, history, request.message_id)
+    # The fork lists as just active, whatever the age of the copied messages
+    update_conversation(fork_id, user["user_id"], last_message_at=datetime.utcnow())
+
+    print(f"[DEBUG] Forked conversation {conversation_id} at message {request.message_id} into {fork_id}")
+    return conversation_view(get_conversation(fork_id, user["user_id"]))
+
+@router.get("/conversations/{conversation_id}/messages/stream")
+async def resume_conversation_stream(
+    conversation_id: int = Path(...),
+    last_event_id: Optional[str] = Header(default=None),
+    current_username: str = Depends(get_current_user)
+):
+    """Reconnect to a reply stream and replay events after `Last-Event-ID`"""
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    parsed = parse_event_id(last_event_id or "")
+    if not parsed:
+        raise HTTPException(status_code=400, detail="Missing or invalid Last-Event-ID header")
+
+    stream_id, seq = parsed
+    stream = get_stream(stream_id, user["user_id"], conversation_id)
+    if not stream:
+        raise HTTPException(status_code=404, detail="Stream not found or expired")
+
+    print(f"[DEBUG] Resuming stream {stream_id} after event {seq}")
     return StreamingResponse(
-        generate_stream(),
+        stream.follow(seq),
         media_type="text/event-stream",
-        headers={
-            "Cache-Control": "no-cache",
-            "Connection": "keep-alive",
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Headers": "*",
-        }
+        headers=SSE_HEADERS
     )
+
+@router.post("/conversations/{conversation_id}/messages/stream/{stream_id}/cancel")
+async def cancel_conversation_stream(
+    conversation_id: int = Path(...),
+    stream_id: str = Path(...),
+    current_username: str = Depends(get_current_user)
+):
+    user = get_user_by_username(current_username)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+
+    stream = get_stream(stream_id, user["user_id"], conversation_id)
+    if not stream:
+        raise HTTPException(status_code=404, detail="Stream not found or expired")
+
+    stream.cancelled = True
+    # Answer once the partial reply is saved, so a reload right after sees it
+    if stream.task:
+        try:
+            await asyncio.wait_for(asyncio.shield(stream.task), timeout=10)
+        except asyncio.TimeoutError:
+            print(f"[DEBUG] Stream {stream_id} still finishing after cancel")
+    return {"message": "Stream cancelled"}
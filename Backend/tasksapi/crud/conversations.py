@@ -1,8 +1,12 @@
 from db.db import engine
-from sqlmodel import SQLModel, Field, Session, select
-import json
-from datetime import datetime
+from sqlmodel import SQLModel, Field, Session, select, func, col
+import uuid
+from datetime import datetime, timedelta, timezone
 from typing import Optional
+from config import settings
+
+# Days a deleted conversation stays in the trash before it is purged
+TRASH_RETENTION_DAYS = getattr(settings, "trash_retention_days", 30)
 
 
 class Conversation(SQLModel, table=True):
@@ -10,24 +14,208 @@ class Conversation(SQLModel, table=True):
     conversation_id: Optional[int] = Field(default=None, primary_key=True)
     user_id: int
     timestamp: str
-    messages: str
+    # Legacy JSON blob, emptied once its contents move to the messages table
+    messages: str = "[]"
+    active_message_id: Optional[str] = None
+    # Set by the user, or generated after the first exchange
+    title: Optional[str] = None
+    # Time of the newest message, for ordering by activity
+    last_message_at: Optional[datetime] = None
+    # Pinned conversations list first; archived ones only in the archive view
+    pinned: bool = False
+    archived: bool = False
+    # Set while the conversation is in the trash
+    deleted_at: Optional[datetime] = None
+    # Folder the user filed the conversation under, if any
+    folder_id: Optional[int] = None
+
+TITLE_MAX_LENGTH = 255
+
+class Message(SQLModel, table=True):
+    __tablename__ = "messages"
+    id: str = Field(primary_key=True)
+    # Filled by the database; gives the creation order within a conversation
+    seq: Optional[int] = None
+    conversation_id: int
+    parent_id: Optional[str] = None
+    role: str
+    content: str
+    timestamp: str
+    stopped: bool = False
+    # Reviewer feedback on assistant replies: "up" or "down", with an optional reason
+    feedback_rating: Optional[str] = None
+    feedback_reason: Optional[str] = None
+    feedback_at: Optional[str] = None
+
+FEEDBACK_RATINGS = ("up", "down")
+
+# Messages form a tree: every message points at the message it answers or
+# follows through `parent_id`. Editing or regenerating adds a sibling instead of
+# overwriting, and `active_message_id` marks the leaf of the branch the user is
+# currently looking at.
+
+def new_message(role, content, parent_id=None) -> dict:
+    return {
+        "id": uuid.uuid4().hex,
+        "parent_id": parent_id,
+        "role": role,
+        "content": content,
+        "timestamp": datetime.utcnow().isoformat()
+    }
+
+def message_to_dict(message: Message) -> dict:
+    result = {
+        "id": message.id,
+        "parent_id": message.parent_id,
+        "role": message.role,
+        "content": message.content,
+        "timestamp": message.timestamp
+    }
+    if message.stopped:
+        result["stopped"] = True
+    if message.feedback_rating:
+        result["feedback"] = feedback_to_dict(message)
+    return result
+
+def feedback_to_dict(message: Message) -> dict:
+    return {
+        "rating": message.feedback_rating,
+        "reason": message.feedback_reason,
+        "timestamp": message.feedback_at
+    }
+
+def get_children(messages, parent_id) -> list:
+    return [m for m in messages if m.get("parent_id") == parent_id]
+
+def get_latest_leaf(messages, message_id):
+    """Follow the most recent reply below `message_id` down to a leaf"""
+    children = get_children(messages, message_id)
+    while children:
+        message_id = children[-1]["id"]
+        children = get_children(messages, message_id)
+    return message_id
+
+def get_active_path(messages, active_message_id) -> list:
+    by_id = {m["id"]: m for m in messages}
+    if active_message_id not in by_id:
+        active_message_id = messages[-1]["id"] if messages else None
+
+    path = []
+    current = by_id.get(active_message_id)
+    while current:
+        path.append(current)
+        current = by_id.get(current.get("parent_id"))
+    path.reverse()
+    return path
+
+def conversation_view(conv) -> dict:
+    """API shape: the active branch with sibling ids for the version switcher, plus the whole tree"""
+    messages = conv["messages"]
+    path = [
+        {**m, "sibling_ids": [s["id"] for s in get_children(messages, m.get("parent_id"))]}
+        for m in get_active_path(messages, conv.get("active_message_id"))
+    ]
+    return {
+        "conversation_id": conv["conversation_id"],
+        "user_id": conv["user_id"],
+        "timestamp": conv["timestamp"],
+        "title": conv.get("title"),
+        "messages": path,
+        "message_tree": messages,
+        "active_message_id": path[-1]["id"] if path else None
+    }
 
 def create_conversation(user_id, first_message):
     timestamp = datetime.utcnow().isoformat()
-    messages = json.dumps([{"role": "user", "content": first_message, "timestamp": timestamp}])
+    first = new_message("user", first_message)
+    first["timestamp"] = timestamp
     with Session(engine) as session:
-        conversation = Conversation(user_id=user_id, timestamp=timestamp, messages=messages)
+        conversation = Conversation(
+            user_id=user_id,
+            timestamp=timestamp,
+            active_message_id=first["id"],
+            last_message_at=datetime.fromisoformat(timestamp)
+        )
         session.add(conversation)
         session.commit()
         session.refresh(conversation)
+        session.add(Message(conversation_id=conversation.conversation_id, **first))
+        session.commit()
         return {
             "conversation_id": conversation.conversation_id,
             "user_id": user_id,
             "timestamp": timestamp,
-            "messages": json.loads(messages)
+            "title": None,
+            "messages": [first],
+            "active_message_id": first["id"]
         }
 
+def parse_timestamp(value) -> datetime:
+    """Naive UTC time from an ISO 8601 string, with or without an offset"""
+    parsed = datetime.fromisoformat(value.replace("Z", "+00:00"))
+    if parsed.tzinfo:
+        parsed = parsed.astimezone(timezone.utc).replace(tzinfo=None)
+    return parsed
+
+def import_conversation(user_id, timestamp, title, messages, active_message_id=None) -> int:
+    """Store an exported conversation under fresh ids, keeping its original timestamps.
+    `messages` holds every message of every branch; raises ValueError if they don't form a tree."""
+    known = {message["id"] for message in messages}
+    if len(known) != len(messages):
+        raise ValueError("Duplicate message ids")
+    # Messages whose parent is missing from the archive become roots
+    children = {}
+    for message in messages:
+        parent_id = message.get("parent_id") if message.get("parent_id") in known else None
+        children.setdefault(parent_id, []).append(message)
+    # Parents before children and siblings oldest first, so `seq` follows the original order
+    ordered = []
+    queue = [None]
+    while queue:
+        parent_id = queue.pop(0)
+        for message in sorted(children.get(parent_id, []), key=lambda m: parse_timestamp(m["timestamp"])):
+            ordered.append(message)
+            queue.append(message["id"])
+    if len(ordered) != len(messages):
+        raise ValueError("Messages do not form a tree")
+
+    new_ids = {message["id"]: uuid.uuid4().hex for message in ordered}
+    latest = max(ordered, key=lambda m: parse_timestamp(m["timestamp"]), default=None)
+    active_id = new_ids.get(active_message_id) or (new_ids[latest["id"]] if latest else None)
+    started_at = parse_timestamp(timestamp)
+
+    with Session(engine) as session:
+        conversation = Conversation(
+            user_id=user_id,
+            timestamp=started_at.isoformat(),
+            title=title[:TITLE_MAX_LENGTH] if title else None,
+            active_message_id=active_id,
+            last_message_at=parse_timestamp(latest["timestamp"]) if latest else started_at
+        )
+        session.add(conversation)
+        session.flush()
+        for message in ordered:
+            feedback = message.get("feedback") or {}
+            rating = feedback.get("rating") if message["role"] == "assistant" else None
+            if rating not in FEEDBACK_RATINGS:
+                rating = None
+            session.add(Message(
+                id=new_ids[message["id"]],
+                conversation_id=conversation.conversation_id,
+                parent_id=new_ids.get(message.get("parent_id")),
+                role=message["role"],
+                content=message["content"],
+                timestamp=parse_timestamp(message["timestamp"]).isoformat(),
+                stopped=bool(message.get("stopped")),
+                feedback_rating=rating,
+                feedback_reason=feedback.get("reason") if rating else None,
+                feedback_at=feedback.get("timestamp") if rating else None
+            ))
+        session.commit()
+        return conversation.conversation_id
+
 def get_conversation(conversation_id, user_id):
+    """Return the stored conversation with every message of every branch"""
     with Session(engine) as session:
         statement = select(Conversation).where(
             Conversation.conversation_id == conversation_id,
@@ -35,14 +223,190 @@ def get_conversation(conversation_id, user_id):
         )
         result = session.exec(statement).first()
         if result:
+            messages = session.exec(
+                select(Message).where(Message.conversation_id == conversation_id).order_by(Message.seq)
+            ).all()
             return {
                 "conversation_id": result.conversation_id,
                 "user_id": result.user_id,
                 "timestamp": result.timestamp,
-                "messages": json.loads(result.messages)
+                "title": result.title,
+                "deleted_at": result.deleted_at,
+                "messages": [message_to_dict(m) for m in messages],
+                "active_message_id": result.active_message_id
             }
         return None
 
+def get_first_messages(conversation_ids) -> dict:
+    """Map each conversation id to the content of its first user message, in one query"""
+    if not conversation_ids:
+        return {}
+    with Session(engine) as session:
+        first_seq = select(
+            Message.conversation_id,
+            func.min(Message.seq).label("seq")
+        ).where(
+            Message.conversation_id.in_(conversation_ids),
+            Message.role == "user"
+        ).group_by(Message.conversation_id).subquery()
+        statement = select(Message.conversation_id, Message.content).join(
+            first_seq, Message.seq == first_seq.c.seq
+        )
+        return {conversation_id: content for conversation_id, content in session.exec(statement).all()}
+
+def get_titles(conversation_ids) -> dict:
+    if not conversation_ids:
+        return {}
+    with Session(engine) as session:
+        statement = select(Conversation.conversation_id, Conversation.title).where(
+            col(Conversation.conversation_id).in_(conversation_ids)
+        )
+        return {conversation_id: title for conversation_id, title in session.exec(statement).all()}
+
+def make_snippet(content, terms, radius=80) -> str:
+    """Cut `content` down to the text around the first matched term"""
+    text = " ".join(content.split())
+    lowered = text.lower()
+    positions = [p for p in (lowered.find(t.lower()) for t in terms) if p != -1]
+    position = min(positions) if positions else 0
+    start = max(0, position - radius)
+    end = min(len(text), position + radius * 2)
+    snippet = text[start:end]
+    if start > 0:
+        snippet = "..." + snippet
+    if end < len(text):
+        snippet = snippet + "..."
+    return snippet
+
+def search_messages(user_id, query, limit=20) -> list:
+    """Messages of the user's conversations containing every word of `query`, newest first"""
+    terms = query.split()[:8]
+    if not terms:
+        return []
+    with Session(engine) as session:
+        statement = select(Message).join(
+            Conversation, Conversation.conversation_id == Message.conversation_id
+        ).where(
+            Conversation.user_id == user_id,
+            col(Conversation.deleted_at).is_(None)
+        )
+        for term in terms:
+            statement = statement.where(col(Message.content).contains(term, autoescape=True))
+        statement = statement.order_by(col(Message.seq).desc()).limit(limit)
+        matches = session.exec(statement).all()
+
+    conversation_ids = list({m.conversation_id for m in matches})
+    first_messages = get_first_messages(conversation_ids)
+    titles = get_titles(conversation_ids)
+    return [
+        {
+            "conversation_id": m.conversation_id,
+            "message_id": m.id,
+            "role": m.role,
+            "timestamp": m.timestamp,
+            "snippet": make_snippet(m.content, terms),
+            "first_message": first_messages.get(m.conversation_id, ""),
+            "title": titles.get(m.conversation_id)
+        }
+        for m in matches
+    ]
+
+def save_message(conversation_id, message: dict) -> dict:
+    """Insert a message, or update its content if it is already stored"""
+    with Session(engine) as session:
+        db_message = session.get(Message, message["id"])
+        if db_message:
+            db_message.content = message["content"]
+            db_message.stopped = bool(message.get("stopped"))
+        else:
+            conversation = session.get(Conversation, conversation_id)
+            if conversation:
+                conversation.last_message_at = datetime.fromisoformat(message["timestamp"])
+                session.add(conversation)
+            db_message = Message(
+                id=message["id"],
+                conversation_id=conversation_id,
+                parent_id=message.get("parent_id"),
+                role=message["role"],
+                content=message["content"],
+                timestamp=message["timestamp"],
+                stopped=bool(message.get("stopped"))
+            )
+        session.add(db_message)
+        session.commit()
+        return message
+
+def update_conversation(conversation_id, user_id, **fields) -> Optional[dict]:
+    """Change editable conversation fields, returning the new values"""
+    with Session(engine) as session:
+        statement = select(Conversation).where(
+            Conversation.conversation_id == conversation_id,
+            Conversation.user_id == user_id
+        )
+        conversation = session.exec(statement).first()
+        if not conversation:
+            return None
+        for name, value in fields.items():
+            setattr(conversation, name, value)
+        session.add(conversation)
+        session.commit()
+        session.refresh(conversation)
+        return {"conversation_id": conversation.conversation_id, **{name: getattr(conversation, name) for name in fields}}
+
+def update_conversations(conversation_ids, user_id, **fields) -> list:
+    """Apply the same change to several conversations; returns the ids that were updated"""
+    with Session(engine) as session:
+        statement = select(Conversation).where(
+            col(Conversation.conversation_id).in_(conversation_ids),
+            Conversation.user_id == user_id
+        )
+        conversations = session.exec(statement).all()
+        for conversation in conversations:
+            for name, value in fields.items():
+                setattr(conversation, name, value)
+            session.add(conversation)
+        session.commit()
+        return [conversation.conversation_id for conversation in conversations]
+
+def set_generated_title(conversation_id, title) -> bool:
+    """Store an automatic title unless the conversation already has one"""
+    with Session(engine) as session:
+        conversation = session.get(Conversation, conversation_id)
+        if not conversation or conversation.title:
+            return False
+        conversation.title = title[:TITLE_MAX_LENGTH]
+        session.add(conversation)
+        session.commit()
+        return True
+
+def set_active_message(conversation_id, user_id, message_id) -> bool:
+    with Session(engine) as session:
+        statement = select(Conversation).where(
+            Conversation.conversation_id == conversation_id,
+            Conversation.user_id == user_id
+        )
+        conversation = session.exec(statement).first()
+        if not conversation:
+            return False
+        conversation.active_message_id = message_id
+        session.add(conversation)
+        session.commit()
+        return True
+
+def set_message_feedback(conversation_id, message_id, rating, reason=None) -> Optional[dict]:
+    """Record, change or (with rating None) clear the feedback on an assistant reply"""
+    with Session(engine) as session:
+        message = session.get(Message, message_id)
+        if not message or message.conversation_id != conversation_id or message.role != "assistant":
+            return None
+        message.feedback_rating = rating
+        message.feedback_reason = (reason or None) if rating else None
+        message.feedback_at = datetime.utcnow().isoformat() if rating else None
+        session.add(message)
+        session.commit()
+        session.refresh(message)
+        return feedback_to_dict(message)
+
 def delete_conversation(conversation_id, user_id) -> bool:
     with Session(engine) as session:
         statement = select(Conversation).where(
@@ -52,6 +416,32 @@ def delete_conversation(conversation_id, user_id) -> bool:
         conversation = session.exec(statement).first()
         if not conversation:
             return False
+        # Messages go with it through ON DELETE CASCADE
         session.delete(conversation)
         session.commit()
-        return True
\ No newline at end of file
+        return True
+
+def delete_conversations(conversation_ids, user_id) -> list:
+    """Permanently delete those of the conversations that are in the trash; returns their ids"""
+    with Session(engine) as session:
+        statement = select(Conversation).where(
+            col(Conversation.conversation_id).in_(conversation_ids),
+            Conversation.user_id == user_id,
+            col(Conversation.deleted_at).is_not(None)
+        )
+        conversations = session.exec(statement).all()
+        for conversation in conversations:
+            session.delete(conversation)
+        session.commit()
+        return [conversation.conversation_id for conversation in conversations]
+
+def purge_deleted_conversations(retention_days=TRASH_RETENTION_DAYS) -> int:
+    """Permanently delete conversations that have been in the trash too long"""
+    cutoff = datetime.utcnow() - timedelta(days=retention_days)
+    with Session(engine) as session:
+        statement = select(Conversation).where(col(Conversation.deleted_at) < cutoff)
+        expired = session.exec(statement).all()
+        for conversation in expired:
+            session.delete(conversation)
+        session.commit()
+        return len(expired)
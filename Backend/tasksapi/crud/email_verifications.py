@@ -0,0 +1,54 @@
+from db.db import engine
+from sqlmodel import SQLModel, Field, Session, select
+from datetime import datetime, timedelta
+from typing import Optional
+import secrets
+from config import settings
+from tasksapi.crud.user import hash_token
+
+EMAIL_VERIFICATION_EXPIRE_HOURS = getattr(settings, "email_verification_expire_hours", 48)
+
+
+class EmailVerificationToken(SQLModel, table=True):
+    __tablename__ = "email_verification_tokens"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    user_id: int
+    # The token itself is only ever in the emailed link
+    token_hash: str
+    created_at: datetime = Field(default_factory=datetime.utcnow)
+    expires_at: datetime
+    used_at: Optional[datetime] = None
+
+def create_email_verification(user_id: int) -> str:
+    """Issue a single-use verification token; links sent earlier stop working"""
+    token = secrets.token_urlsafe(32)
+    now = datetime.utcnow()
+    with Session(engine) as session:
+        statement = select(EmailVerificationToken).where(
+            EmailVerificationToken.user_id == user_id,
+            EmailVerificationToken.used_at == None
+        )
+        for previous in session.exec(statement).all():
+            previous.used_at = now
+            session.add(previous)
+        session.add(EmailVerificationToken(
+            user_id=user_id,
+            token_hash=hash_token(token),
+            created_at=now,
+            expires_at=now + timedelta(hours=EMAIL_VERIFICATION_EXPIRE_HOURS)
+        ))
+        session.commit()
+    return token
+
+def use_email_verification(token: str) -> int | None:
+    """Spend a verification token and return its user id; None if it is unknown, used or expired"""
+    with Session(engine) as session:
+        statement = select(EmailVerificationToken).where(EmailVerificationToken.token_hash == hash_token(token))
+        verification = session.exec(statement).first()
+        now = datetime.utcnow()
+        if not verification or verification.used_at or verification.expires_at <= now:
+            return None
+        verification.used_at = now
+        session.add(verification)
+        session.commit()
+        return verification.user_id
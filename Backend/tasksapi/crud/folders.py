@@ -0,0 +1,78 @@
+from db.db import engine
+from sqlmodel import SQLModel, Field, Session, select
+from datetime import datetime
+from typing import Optional
+
+FOLDER_NAME_MAX_LENGTH = 100
+
+
+class Folder(SQLModel, table=True):
+    __tablename__ = "folders"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    user_id: int
+    # Folders nest; top-level folders have no parent
+    parent_id: Optional[int] = None
+    name: str
+    created_at: Optional[datetime] = Field(default_factory=datetime.utcnow)
+
+def folder_to_dict(folder: Folder) -> dict:
+    return {
+        "id": folder.id,
+        "parent_id": folder.parent_id,
+        "name": folder.name,
+        "created_at": folder.created_at
+    }
+
+def list_folders(user_id) -> list:
+    with Session(engine) as session:
+        statement = select(Folder).where(Folder.user_id == user_id).order_by(Folder.name, Folder.id)
+        return [folder_to_dict(folder) for folder in session.exec(statement).all()]
+
+def get_folder(folder_id, user_id) -> Optional[dict]:
+    with Session(engine) as session:
+        statement = select(Folder).where(Folder.id == folder_id, Folder.user_id == user_id)
+        folder = session.exec(statement).first()
+        return folder_to_dict(folder) if folder else None
+
+def create_folder(user_id, name, parent_id=None) -> dict:
+    with Session(engine) as session:
+        folder = Folder(user_id=user_id, name=name[:FOLDER_NAME_MAX_LENGTH], parent_id=parent_id)
+        session.add(folder)
+        session.commit()
+        session.refresh(folder)
+        return folder_to_dict(folder)
+
+def is_descendant(folder_id, ancestor_id, user_id) -> bool:
+    """Whether `folder_id` is `ancestor_id` or lies somewhere below it"""
+    parents = {folder["id"]: folder["parent_id"] for folder in list_folders(user_id)}
+    current = folder_id
+    while current is not None:
+        if current == ancestor_id:
+            return True
+        current = parents.get(current)
+    return False
+
+def update_folder(folder_id, user_id, **fields) -> Optional[dict]:
+    with Session(engine) as session:
+        statement = select(Folder).where(Folder.id == folder_id, Folder.user_id == user_id)
+        folder = session.exec(statement).first()
+        if not folder:
+            return None
+        for name, value in fields.items():
+            setattr(folder, name, value)
+        session.add(folder)
+        session.commit()
+        session.refresh(folder)
+        return folder_to_dict(folder)
+
+def delete_folder(folder_id, user_id) -> bool:
+    with Session(engine) as session:
+        statement = select(Folder).where(Folder.id == folder_id, Folder.user_id == user_id)
+        folder = session.exec(statement).first()
+        if not folder:
+            return False
+        # Subfolders go with it through ON DELETE CASCADE; their conversations
+        # fall back to no folder through ON DELETE SET NULL
+        session.delete(folder)
+        session.commit()
+        return True
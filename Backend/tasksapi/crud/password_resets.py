@@ -0,0 +1,54 @@
+from db.db import engine
+from sqlmodel import SQLModel, Field, Session, select
+from datetime import datetime, timedelta
+from typing import Optional
+import secrets
+from config import settings
+from tasksapi.crud.user import hash_token
+
+PASSWORD_RESET_EXPIRE_MINUTES = getattr(settings, "password_reset_expire_minutes", 60)
+
+
+class PasswordResetToken(SQLModel, table=True):
+    __tablename__ = "password_reset_tokens"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    user_id: int
+    # The token itself is only ever in the emailed link
+    token_hash: str
+    created_at: datetime = Field(default_factory=datetime.utcnow)
+    expires_at: datetime
+    used_at: Optional[datetime] = None
+
+def create_password_reset(user_id: int) -> str:
+    """Issue a single-use reset token; links sent earlier stop working"""
+    token = secrets.token_urlsafe(32)
+    now = datetime.utcnow()
+    with Session(engine) as session:
+        statement = select(PasswordResetToken).where(
+            PasswordResetToken.user_id == user_id,
+            PasswordResetToken.used_at == None
+        )
+        for previous in session.exec(statement).all():
+            previous.used_at = now
+            session.add(previous)
+        session.add(PasswordResetToken(
+            user_id=user_id,
+            token_hash=hash_token(token),
+            created_at=now,
+            expires_at=now + timedelta(minutes=PASSWORD_RESET_EXPIRE_MINUTES)
+        ))
+        session.commit()
+    return token
+
+def use_password_reset(token: str) -> int | None:
+    """Spend a reset token and return its user id; None if it is unknown, used or expired"""
+    with Session(engine) as session:
+        statement = select(PasswordResetToken).where(PasswordResetToken.token_hash == hash_token(token))
+        reset = session.exec(statement).first()
+        now = datetime.utcnow()
+        if not reset or reset.used_at or reset.expires_at <= now:
+            return None
+        reset.used_at = now
+        session.add(reset)
+        session.commit()
+        return reset.user_id
@@ -0,0 +1,91 @@
+from db.db import engine
+from sqlmodel import SQLModel, Field, Session, select
+from datetime import datetime
+from typing import Optional
+import json
+import secrets
+from tasksapi.crud.conversations import Conversation
+
+
+class SharedLink(SQLModel, table=True):
+    __tablename__ = "shared_links"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    # Unguessable id used in the public URL
+    token: str
+    user_id: int
+    conversation_id: int
+    title: Optional[str] = None
+    # JSON list of the messages on the active branch when the link was made;
+    # later messages are not shared
+    snapshot: str
+    created_at: datetime = Field(default_factory=datetime.utcnow)
+    expires_at: Optional[datetime] = None
+    revoked_at: Optional[datetime] = None
+
+def share_to_dict(share: SharedLink) -> dict:
+    return {
+        "id": share.id,
+        "token": share.token,
+        "conversation_id": share.conversation_id,
+        "title": share.title,
+        "message_count": len(json.loads(share.snapshot)),
+        "created_at": share.created_at,
+        "expires_at": share.expires_at,
+        "revoked_at": share.revoked_at
+    }
+
+def create_share(user_id, conversation_id, title, messages, expires_at=None) -> dict:
+    with Session(engine) as session:
+        share = SharedLink(
+            token=secrets.token_urlsafe(32),
+            user_id=user_id,
+            conversation_id=conversation_id,
+            title=title,
+            snapshot=json.dumps(messages),
+            expires_at=expires_at
+        )
+        session.add(share)
+        session.commit()
+        session.refresh(share)
+        return share_to_dict(share)
+
+def list_shares(user_id, conversation_id=None) -> list:
+    """The user's links, newest first, including revoked and expired ones"""
+    with Session(engine) as session:
+        statement = select(SharedLink).where(SharedLink.user_id == user_id)
+        if conversation_id is not None:
+            statement = statement.where(SharedLink.conversation_id == conversation_id)
+        statement = statement.order_by(SharedLink.created_at.desc())
+        return [share_to_dict(share) for share in session.exec(statement).all()]
+
+def update_share(share_id, user_id, **fields) -> Optional[dict]:
+    with Session(engine) as session:
+        statement = select(SharedLink).where(SharedLink.id == share_id, SharedLink.user_id == user_id)
+        share = session.exec(statement).first()
+        if not share:
+            return None
+        for name, value in fields.items():
+            setattr(share, name, value)
+        session.add(share)
+        session.commit()
+        session.refresh(share)
+        return share_to_dict(share)
+
+def get_shared_snapshot(token) -> Optional[dict]:
+    """The snapshot behind a link, unless the link is revoked or expired or
+    its conversation is in the trash"""
+    with Session(engine) as session:
+        share = session.exec(select(SharedLink).where(SharedLink.token == token)).first()
+        if not share or share.revoked_at:
+            return None
+        if share.expires_at and share.expires_at <= datetime.utcnow():
+            return None
+        conversation = session.get(Conversation, share.conversation_id)
+        if not conversation or conversation.deleted_at:
+            return None
+        return {
+            "title": share.title,
+            "messages": json.loads(share.snapshot),
+            "shared_at": share.created_at,
+            "expires_at": share.expires_at
+        }
@@ -0,0 +1,132 @@
+from db.db import engine
+from sqlmodel import SQLModel, Field, Session, select, col
+from datetime import datetime
+from typing import Optional
+from tasksapi.crud.conversations import Conversation
+
+TAG_NAME_MAX_LENGTH = 50
+# Named colors the frontend knows how to render
+TAG_COLORS = ("gray", "red", "orange", "yellow", "green", "blue", "purple", "pink")
+
+
+class Tag(SQLModel, table=True):
+    __tablename__ = "tags"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    user_id: int
+    name: str
+    color: str = "gray"
+    created_at: Optional[datetime] = Field(default_factory=datetime.utcnow)
+
+class ConversationTag(SQLModel, table=True):
+    __tablename__ = "conversation_tags"
+    conversation_id: int = Field(primary_key=True)
+    tag_id: int = Field(primary_key=True)
+
+def tag_to_dict(tag: Tag) -> dict:
+    return {"id": tag.id, "name": tag.name, "color": tag.color}
+
+def list_tags(user_id) -> list:
+    with Session(engine) as session:
+        statement = select(Tag).where(Tag.user_id == user_id).order_by(Tag.name)
+        return [tag_to_dict(tag) for tag in session.exec(statement).all()]
+
+def get_tag_by_name(user_id, name) -> Optional[dict]:
+    with Session(engine) as session:
+        statement = select(Tag).where(Tag.user_id == user_id, Tag.name == name)
+        tag = session.exec(statement).first()
+        return tag_to_dict(tag) if tag else None
+
+def get_user_tag_ids(user_id, tag_ids) -> set:
+    """The subset of `tag_ids` that belong to the user"""
+    if not tag_ids:
+        return set()
+    with Session(engine) as session:
+        statement = select(Tag.id).where(Tag.user_id == user_id, col(Tag.id).in_(tag_ids))
+        return set(session.exec(statement).all())
+
+def create_tag(user_id, name, color) -> dict:
+    with Session(engine) as session:
+        tag = Tag(user_id=user_id, name=name[:TAG_NAME_MAX_LENGTH], color=color)
+        session.add(tag)
+        session.commit()
+        session.refresh(tag)
+        return tag_to_dict(tag)
+
+def update_tag(tag_id, user_id, **fields) -> Optional[dict]:
+    with Session(engine) as session:
+        statement = select(Tag).where(Tag.id == tag_id, Tag.user_id == user_id)
+        tag = session.exec(statement).first()
+        if not tag:
+            return None
+        for name, value in fields.items():
+            setattr(tag, name, value)
+        session.add(tag)
+        session.commit()
+        session.refresh(tag)
+        return tag_to_dict(tag)
+
+def delete_tag(tag_id, user_id) -> bool:
+    with Session(engine) as session:
+        statement = select(Tag).where(Tag.id == tag_id, Tag.user_id == user_id)
+        tag = session.exec(statement).first()
+        if not tag:
+            return False
+        # Assignments go with it through ON DELETE CASCADE
+        session.delete(tag)
+        session.commit()
+        return True
+
+def get_conversation_tag_ids(conversation_ids) -> dict:
+    """Map each conversation id to the ids of its tags, in one query"""
+    result = {conversation_id: [] for conversation_id in conversation_ids}
+    if not conversation_ids:
+        return result
+    with Session(engine) as session:
+        statement = select(ConversationTag).where(col(ConversationTag.conversation_id).in_(conversation_ids))
+        for link in session.exec(statement).all():
+            result[link.conversation_id].append(link.tag_id)
+        return result
+
+def set_conversation_tags(conversation_id, tag_ids) -> list:
+    """Replace the tags of a conversation; returns the new tag ids"""
+    with Session(engine) as session:
+        statement = select(ConversationTag).where(ConversationTag.conversation_id == conversation_id)
+        for link in session.exec(statement).all():
+            session.delete(link)
+        for tag_id in tag_ids:
+            session.add(ConversationTag(conversation_id=conversation_id, tag_id=tag_id))
+        session.commit()
+        return list(tag_ids)
+
+def tag_conversations(conversation_ids, user_id, tag_id) -> list:
+    """Add a tag to several conversations; returns the ids of those that are the user's"""
+    with Session(engine) as session:
+        owned = session.exec(select(Conversation.conversation_id).where(
+            col(Conversation.conversation_id).in_(conversation_ids),
+            Conversation.user_id == user_id
+        )).all()
+        tagged = set(session.exec(select(ConversationTag.conversation_id).where(
+            col(ConversationTag.conversation_id).in_(owned),
+            ConversationTag.tag_id == tag_id
+        )).all())
+        for conversation_id in owned:
+            if conversation_id not in tagged:
+                session.add(ConversationTag(conversation_id=conversation_id, tag_id=tag_id))
+        session.commit()
+        return list(owned)
+
+def untag_conversations(conversation_ids, user_id, tag_id) -> list:
+    """Remove a tag from several conversations; returns the ids of those that are the user's"""
+    with Session(engine) as session:
+        owned = session.exec(select(Conversation.conversation_id).where(
+            col(Conversation.conversation_id).in_(conversation_ids),
+            Conversation.user_id == user_id
+        )).all()
+        statement = select(ConversationTag).where(
+            col(ConversationTag.conversation_id).in_(owned),
+            ConversationTag.tag_id == tag_id
+        )
+        for link in session.exec(statement).all():
+            session.delete(link)
+        session.commit()
+        return list(owned)
@@ -1,8 +1,13 @@
-from sqlmodel import Session, select, SQLModel, Field, delete
+from sqlmodel import Session, select, SQLModel, Field, delete, update
 from db.db import engine
 import bcrypt
+import hashlib
+import secrets
 from typing import Optional
 from datetime import datetime, timedelta
+from config import settings
+
+REFRESH_TOKEN_EXPIRE_DAYS = getattr(settings, "refresh_token_expire_days", 30)
 
 class User(SQLModel, table=True):
     __tablename__ = "users"
@@ -11,6 +16,8 @@ class User(SQLModel, table=True):
     password: str
     emailaddress: str
     created_at: Optional[datetime] = Field(default_factory=datetime.utcnow)
+    # Set once the user opens the link emailed at registration
+    email_verified_at: Optional[datetime] = None
 
 class UserLogin(SQLModel):
     username: str
@@ -34,6 +41,16 @@ class UserToken(SQLModel, table=True):
     expires_at: Optional[datetime] = None
     revoked: Optional[bool] = False
 
+class RefreshToken(SQLModel, table=True):
+    __tablename__ = "refresh_tokens"
+    id: Optional[int] = Field(default=None, primary_key=True)
+    user_id: int
+    # Only a SHA-256 of the token is stored, so a database leak can't be replayed
+    token_hash: str
+    created_at: datetime = Field(default_factory=datetime.utcnow)
+    expires_at: datetime
+    revoked_at: Optional[datetime] = None
+
 def create_user(user: UserCreate) -> dict:
     print(f"Creating user: {user.username}")
     cleanup_expired_tokens()
@@ -48,7 +65,7 @@ def create_user(user: UserCreate) -> dict:
         session.commit()
         session.refresh(db_user)
         print(f"User created successfully with ID: {db_user.id}")
-        return {"user_id": db_user.id, "username": db_user.username, "emailaddress": db_user.emailaddress}
+        return {"user_id": db_user.id, "username": db_user.username, "emailaddress": db_user.emailaddress, "email_verified": False}
 
 def get_user_by_username(username: str) -> dict | None:
     print(f"Looking for user: {username}")
@@ -62,11 +79,37 @@ def get_user_by_username(username: str) -> dict | None:
                 "user_id": result.id,
                 "username": result.username,
                 "password": result.password,
-                "emailaddress": result.emailaddress
+                "emailaddress": result.emailaddress,
+                "email_verified": result.email_verified_at is not None
             }
         print(f"No user found in database: {username}")
         return None
 
+def get_user_by_id(user_id: int) -> dict | None:
+    with Session(engine) as session:
+        result = session.get(User, user_id)
+        if result:
+            return {
+                "user_id": result.id,
+                "username": result.username,
+                "emailaddress": result.emailaddress,
+                "email_verified": result.email_verified_at is not None
+            }
+        return None
+
+def get_user_by_email(emailaddress: str) -> dict | None:
+    with Session(engine) as session:
+        statement = select(User).where(User.emailaddress == emailaddress)
+        result = session.exec(statement).first()
+        if result:
+            return {
+                "user_id": result.id,
+                "username": result.username,
+                "emailaddress": result.emailaddress,
+                "email_verified": result.email_verified_at is not None
+            }
+        return None
+
 def verify_user_login(username: str, password: str) -> dict | None:
     print(f"Attempting login for username: {username}")
     cleanup_expired_tokens()
@@ -80,7 +123,8 @@ def verify_user_login(username: str, password: str) -> dict | None:
         return {
             "user_id": user['user_id'],
             "username": user['username'],
-            "emailaddress": user['emailaddress']
+            "emailaddress": user['emailaddress'],
+            "email_verified": user['email_verified']
         }
     print(f"Password verification failed for user: {username}")
     return None
@@ -155,3 +199,62 @@ def update_user(user_id: int, user: UserUpdate) -> dict:
             return {"updated": True}
         print(f"User not found for update: {user_id}")
         return {"updated": False}
+
+def set_email_verified(user_id: int) -> bool:
+    with Session(engine) as session:
+        db_user = session.get(User, user_id)
+        if not db_user:
+            return False
+        if not db_user.email_verified_at:
+            db_user.email_verified_at = datetime.utcnow()
+            session.add(db_user)
+            session.commit()
+            print(f"Email verified for user_id: {user_id}")
+        return True
+
+def hash_token(token: str) -> str:
+    return hashlib.sha256(token.encode('utf-8')).hexdigest()
+
+def create_refresh_token(user_id: int) -> str:
+    """Issue a long-lived token that can be traded for a new access token once"""
+    token = secrets.token_urlsafe(48)
+    with Session(engine) as session:
+        session.add(RefreshToken(
+            user_id=user_id,
+            token_hash=hash_token(token),
+            expires_at=datetime.utcnow() + timedelta(days=REFRESH_TOKEN_EXPIRE_DAYS)
+        ))
+        session.commit()
+    print(f"Refresh token issued for user_id: {user_id}")
+    return token
+
+def use_refresh_token(token: str) -> int | None:
+    """Revoke a refresh token and return its user id; None if it is unknown, used or expired.
+    Tokens rotate, so each one works exactly once."""
+    token_hash = hash_token(token)
+    with Session(engine) as session:
+        now = datetime.utcnow()
+        # Check and revoke in one statement, so concurrent requests can't both spend it
+        statement = update(RefreshToken).where(
+            RefreshToken.token_hash == token_hash,
+            RefreshToken.revoked_at == None,
+            RefreshToken.expires_at > now
+        ).values(revoked_at=now)
+        if session.exec(statement).rowcount != 1:
+            session.rollback()
+            print("Rejected refresh token")
+            return None
+        session.commit()
+        statement = select(RefreshToken.user_id).where(RefreshToken.token_hash == token_hash)
+        return session.exec(statement).first()
+
+def revoke_refresh_tokens(user_id: int) -> bool:
+    print(f"Revoking refresh tokens for user_id: {user_id}")
+    with Session(engine) as session:
+        now = datetime.utcnow()
+        statement = select(RefreshToken).where(RefreshToken.user_id == user_id, RefreshToken.revoked_at == None)
+        for refresh_token in session.exec(statement).all():
+            refresh_token.revoked_at = now
+            session.add(refresh_token)
+        session.commit()
+        return True
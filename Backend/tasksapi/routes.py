@@ -5,11 +5,41 @@ router = APIRouter()
 
 router.post("/register")(register_user)
 router.post("/login")(login_user)
+router.post("/refresh")(refresh_access_token)
 router.post("/logout")(logout_user)
+router.post("/verify-email")(verify_email)
+router.post("/verify-email/resend")(resend_verification_email)
+router.post("/password-reset")(request_password_reset)
+router.post("/password-reset/confirm")(confirm_password_reset)
 router.get("/me")(get_current_user_info)
 router.get("/conversations")(get_user_conversations)
+router.get("/conversations/search")(search_user_conversations)
 router.post("/conversations")(start_conversation) 
+router.post("/conversations/batch")(batch_update_conversations)
+router.post("/conversations/import")(import_conversations)
 router.get("/conversations/{conversation_id}")(read_conversation)
+router.patch("/conversations/{conversation_id}")(update_conversation_endpoint)
 router.delete("/conversations/{conversation_id}")(delete_conversation_endpoint)
+router.post("/conversations/{conversation_id}/restore")(restore_conversation_endpoint)
 router.post("/conversations/{conversation_id}/messages")(add_message_to_conversation)
 router.post("/conversations/{conversation_id}/messages/stream")(add_message_to_conversation_stream)
+router.get("/conversations/{conversation_id}/messages/stream")(resume_conversation_stream)
+router.put("/conversations/{conversation_id}/messages/{message_id}/stream")(edit_message_stream)
+router.post("/conversations/{conversation_id}/messages/{message_id}/regenerate/stream")(regenerate_message_stream)
+router.put("/conversations/{conversation_id}/messages/{message_id}/feedback")(submit_message_feedback)
+router.put("/conversations/{conversation_id}/active")(set_active_branch)
+router.post("/conversations/{conversation_id}/fork")(fork_conversation)
+router.post("/conversations/{conversation_id}/messages/stream/{stream_id}/cancel")(cancel_conversation_stream)
+router.get("/folders")(get_user_folders)
+router.post("/folders")(create_folder_endpoint)
+router.patch("/folders/{folder_id}")(update_folder_endpoint)
+router.delete("/folders/{folder_id}")(delete_folder_endpoint)
+router.get("/tags")(get_user_tags)
+router.post("/tags")(create_tag_endpoint)
+router.patch("/tags/{tag_id}")(update_tag_endpoint)
+router.delete("/tags/{tag_id}")(delete_tag_endpoint)
+router.post("/conversations/{conversation_id}/shares")(create_share_link)
+router.get("/shares")(get_share_links)
+router.patch("/shares/{share_id}")(update_share_link)
+router.delete("/shares/{share_id}")(revoke_share_link)
+router.get("/shared/{token}")(read_shared_conversation)
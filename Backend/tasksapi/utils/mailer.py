@@ -0,0 +1,73 @@
+import os
+import smtplib
+from datetime import datetime
+from email.message import EmailMessage
+from config import settings
+
+# "console" prints emails, "file" writes them to MAIL_OUTBOX_DIR; both stand in for
+# a real mail server during development. "smtp" sends them.
+MAIL_BACKEND = getattr(settings, "mail_backend", "console")
+MAIL_FROM = getattr(settings, "mail_from", "Healthcare Chatbot <no-reply@localhost>")
+MAIL_OUTBOX_DIR = getattr(settings, "mail_outbox_dir", "mail_outbox")
+SMTP_HOST = getattr(settings, "smtp_host", "localhost")
+SMTP_PORT = getattr(settings, "smtp_port", 587)
+SMTP_USERNAME = getattr(settings, "smtp_username", None)
+SMTP_PASSWORD = getattr(settings, "smtp_password", None)
+SMTP_USE_TLS = getattr(settings, "smtp_use_tls", True)
+# Where links in emails point to
+FRONTEND_URL = getattr(settings, "frontend_url", "http://localhost:3000")
+
+
+class Mailer:
+    """Sends plain-text emails; subclasses decide where they go"""
+
+    def send(self, message: EmailMessage):
+        raise NotImplementedError
+
+
+class ConsoleMailer(Mailer):
+    def send(self, message: EmailMessage):
+        print(f"[DEBUG] Email to {message['To']}: {message['Subject']}\n{message.get_content()}")
+
+
+class FileMailer(Mailer):
+    def send(self, message: EmailMessage):
+        os.makedirs(MAIL_OUTBOX_DIR, exist_ok=True)
+        file_name = f"{datetime.utcnow().strftime('%Y%m%d-%H%M%S-%f')}.eml"
+        path = os.path.join(MAIL_OUTBOX_DIR, file_name)
+        with open(path, "wb") as file:
+            file.write(bytes(message))
+        print(f"[DEBUG] Email to {message['To']} written to {path}")
+
+
+class SmtpMailer(Mailer):
+    def send(self, message: EmailMessage):
+        with smtplib.SMTP(SMTP_HOST, SMTP_PORT, timeout=30) as smtp:
+            if SMTP_USE_TLS:
+                smtp.starttls()
+            if SMTP_USERNAME:
+                smtp.login(SMTP_USERNAME, SMTP_PASSWORD)
+            smtp.send_message(message)
+
+
+MAILERS = {
+    "console": ConsoleMailer,
+    "file": FileMailer,
+    "smtp": SmtpMailer,
+}
+
+def get_mailer() -> Mailer:
+    if MAIL_BACKEND not in MAILERS:
+        raise ValueError(f"Unknown mail backend: {MAIL_BACKEND}")
+    return MAILERS[MAIL_BACKEND]()
+
+def frontend_link(path: str) -> str:
+    return f"{FRONTEND_URL.rstrip('/')}{path}"
+
+def send_email(to: str, subject: str, body: str):
+    message = EmailMessage()
+    message["From"] = MAIL_FROM
+    message["To"] = to
+    message["Subject"] = subject
+    message.set_content(body)
+    get_mailer().send(message)
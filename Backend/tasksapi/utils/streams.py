@@ -0,0 +1,87 @@
+import asyncio
+import json
+import secrets
+import time
+from typing import Optional
+
+# How long a finished stream stays replayable for clients that reconnect late
+STREAM_TTL_SECONDS = 300
+# Reconnect delay advertised to clients in the first event
+RETRY_MILLISECONDS = 1000
+
+
+class ChatStream:
+    """Buffered events of one assistant reply, replayable by event id"""
+
+    def __init__(self, user_id: int, conversation_id: int):
+        self.stream_id = secrets.token_urlsafe(12)
+        self.user_id = user_id
+        self.conversation_id = conversation_id
+        self.events: list[str] = []
+        self.finished = False
+        self.cancelled = False
+        self.finished_at: Optional[float] = None
+        self.task: Optional[asyncio.Task] = None
+        self._changed = asyncio.Event()
+
+    def push(self, payload: dict):
+        seq = len(self.events)
+        lines = [f"id: {self.stream_id}:{seq}"]
+        if seq == 0:
+            lines.append(f"retry: {RETRY_MILLISECONDS}")
+        lines.append(f"data: {json.dumps(payload)}")
+        self.events.append("\n".join(lines) + "\n\n")
+        self._changed.set()
+
+    def finish(self):
+        self.finished = True
+        self.finished_at = time.monotonic()
+        self._changed.set()
+
+    async def follow(self, after_seq: int = -1):
+        """Yield buffered events after `after_seq`, then new ones until the stream finishes"""
+        position = after_seq + 1
+        while True:
+            while position < len(self.events):
+                yield self.events[position]
+                position += 1
+            if self.finished:
+                return
+            self._changed.clear()
+            await self._changed.wait()
+
+
+_streams: dict[str, ChatStream] = {}
+
+
+def cleanup_streams():
+    now = time.monotonic()
+    expired = [
+        stream_id for stream_id, stream in _streams.items()
+        if stream.finished and now - stream.finished_at > STREAM_TTL_SECONDS
+    ]
+    for stream_id in expired:
+        del _streams[stream_id]
+
+
+def create_stream(user_id: int, conversation_id: int) -> ChatStream:
+    cleanup_streams()
+    stream = ChatStream(user_id, conversation_id)
+    _streams[stream.stream_id] = stream
+    return stream
+
+
+def get_stream(stream_id: str, user_id: int, conversation_id: int) -> Optional[ChatStream]:
+    cleanup_streams()
+    stream = _streams.get(stream_id)
+    if not stream or stream.user_id != user_id or stream.conversation_id != conversation_id:
+        return None
+    return stream
+
+
+def parse_event_id(event_id: str) -> tuple[str, int] | None:
+    """Split a `Last-Event-ID` of the form `<stream_id>:<seq>`"""
+    stream_id, _, seq = event_id.rpartition(":")
+    if not stream_id or not seq.isdigit():
+        return None
+    return stream_id, int(seq)
@@ -1,9 +1,10 @@
-from fastapi import HTTPException, Depends
+from fastapi import HTTPException, Depends, Request, Response
 from fastapi.security import OAuth2PasswordBearer
 from jose import JWTError, jwt
 from datetime import datetime, timezone, timedelta
 import os
-from tasksapi.crud.user import get_user_by_username, get_user_token
+import secrets
+from tasksapi.crud.user import get_user_by_username, get_user_token, REFRESH_TOKEN_EXPIRE_DAYS
 from config import settings
 
 # Use settings from config
@@ -11,8 +12,23 @@ SECRET_KEY = settings.secret_key
 ALGORITHM = settings.algorithm
 ACCESS_TOKEN_EXPIRE_MINUTES = settings.access_token_expire_minutes
 
-# OAuth2 scheme for token authentication
-oauth2_scheme = OAuth2PasswordBearer(tokenUrl="tasks/login")
+# Session cookies. Both tokens are httpOnly so page scripts can't read them;
+# the CSRF token is readable on purpose, the frontend echoes it in a header.
+ACCESS_COOKIE = "access_token"
+REFRESH_COOKIE = "refresh_token"
+CSRF_COOKIE = "csrf_token"
+# Holds no secret; tells the frontend a session exists for as long as it can be renewed
+SESSION_COOKIE = "logged_in"
+CSRF_HEADER = "X-CSRF-Token"
+# The refresh token is only ever sent to the refresh endpoint
+REFRESH_COOKIE_PATH = "/api/refresh"
+COOKIE_SECURE = getattr(settings, "cookie_secure", False)
+COOKIE_SAMESITE = getattr(settings, "cookie_samesite", "lax")
+COOKIE_DOMAIN = getattr(settings, "cookie_domain", None)
+SAFE_METHODS = ("GET", "HEAD", "OPTIONS")
+
+# OAuth2 scheme for token authentication; optional because browsers use the cookie
+oauth2_scheme = OAuth2PasswordBearer(tokenUrl="tasks/login", auto_error=False)
 
 def create_access_token(data: dict, expires_delta: timedelta | None = None):
     """Create JWT access token"""
@@ -44,8 +60,40 @@ def verify_token(token: str = Depends(oauth2_scheme)):
     except JWTError:
         raise HTTPException(status_code=401, detail="Invalid token")
 
-def get_current_user(token: str = Depends(oauth2_scheme)):
-    """Get current user from token"""
+def set_auth_cookies(response: Response, access_token: str, refresh_token: str):
+    """Start or renew the browser session"""
+    common = {"secure": COOKIE_SECURE, "samesite": COOKIE_SAMESITE, "domain": COOKIE_DOMAIN}
+    refresh_max_age = REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60
+    response.set_cookie(ACCESS_COOKIE, access_token, max_age=ACCESS_TOKEN_EXPIRE_MINUTES * 60, httponly=True, **common)
+    response.set_cookie(REFRESH_COOKIE, refresh_token, max_age=refresh_max_age, path=REFRESH_COOKIE_PATH, httponly=True, **common)
+    response.set_cookie(CSRF_COOKIE, secrets.token_urlsafe(32), max_age=refresh_max_age, httponly=False, **common)
+    response.set_cookie(SESSION_COOKIE, "1", max_age=refresh_max_age, httponly=False, **common)
+
+def clear_auth_cookies(response: Response):
+    response.delete_cookie(ACCESS_COOKIE, domain=COOKIE_DOMAIN)
+    response.delete_cookie(REFRESH_COOKIE, path=REFRESH_COOKIE_PATH, domain=COOKIE_DOMAIN)
+    response.delete_cookie(CSRF_COOKIE, domain=COOKIE_DOMAIN)
+    response.delete_cookie(SESSION_COOKIE, domain=COOKIE_DOMAIN)
+
+def verify_csrf(request: Request):
+    """Double-submit check: another site can make the browser send our cookies,
+    but it can't read the CSRF cookie to copy it into the header"""
+    cookie = request.cookies.get(CSRF_COOKIE)
+    header = request.headers.get(CSRF_HEADER)
+    if not cookie or not header or not secrets.compare_digest(cookie, header):
+        raise HTTPException(status_code=403, detail="CSRF token missing or invalid")
+
+def get_current_user(request: Request, bearer_token: str | None = Depends(oauth2_scheme)):
+    """Get current user from the session cookie, or from a bearer token for API clients"""
+    token = request.cookies.get(ACCESS_COOKIE)
+    if token:
+        if request.method not in SAFE_METHODS:
+            verify_csrf(request)
+    else:
+        token = bearer_token
+    if not token:
+        raise HTTPException(status_code=401, detail="Not authenticated")
+
     payload = verify_token(token)
     username: str = payload.get("sub")
     if username is None:
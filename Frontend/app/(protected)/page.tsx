@@ -8,10 +8,15 @@ import { Button } from '@/components/ui/button';
 import { LogOut, User } from 'lucide-react';
 import { useConversationStore } from '@/lib/conversation-store';
 import { useChatStore } from '@/lib/chat-store';
+import { getCurrentUser, logoutUser, SessionExpiredError } from '@/lib/api';
+
+// `/?conversation=<id>` opens that conversation, so it can be linked to and survives a reload
+const CONVERSATION_PARAM = 'conversation';
 
 export default function HomePage() {
   const [user, setUser] = useState<{ user_id: number; username: string; emailaddress: string } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [mounted, setMounted] = useState(false);
   const router = useRouter();
@@ -27,20 +32,50 @@ export default function HomePage() {
   useEffect(() => {
     if (!mounted) return;
     
-    // Check if user is logged in
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      setUser(JSON.parse(userData));
-    } else {
-      router.push('/login');
-    }
-    setLoading(false);
+    // middleware.ts has already sent visitors without a session to the login page
+    let cancelled = false;
+    getCurrentUser()
+      .then(({ user }) => {
+        if (cancelled) return;
+        const linked = Number(new URLSearchParams(window.location.search).get(CONVERSATION_PARAM));
+        if (linked) setCurrentConversation(linked);
+        setUser(user);
+      })
+      .catch((error) => {
+        // An expired session has already been redirected to login
+        if (error instanceof SessionExpiredError) return;
+        console.error('Failed to load user:', error);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [router, mounted]);
 
-  const handleLogout = () => {
+  // Keep the address bar pointing at the open conversation
+  useEffect(() => {
+    if (!user) return;
+    const url = currentConversationId ? `/?${CONVERSATION_PARAM}=${currentConversationId}` : '/';
+    if (window.location.pathname + window.location.search !== url) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [user, currentConversationId]);
+
+  const handleLogout = async () => {
+    try {
+      // Revokes the refresh token and clears the session cookies
+      await logoutUser();
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
     if (typeof window !== 'undefined') {
+      // Left behind by versions that kept the session in localStorage
       localStorage.removeItem('user');
       localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
       // Clear all conversation histories
       Object.keys(localStorage).forEach(key => {
         if (key.startsWith('chatHistory-')) {
@@ -75,6 +110,17 @@ export default function HomePage() {
     );
   }
 
+  if (loadError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen space-y-4">
+        <p className="text-gray-600">Couldn&apos;t reach the server.</p>
+        <Button variant="outline" onClick={() => window.location.reload()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
   if (!user) {
     return null;
   }
@@ -87,6 +133,7 @@ export default function HomePage() {
         onSelectConversation={handleSelectConversation}
         onNewConversation={handleNewConversation}
         refreshTrigger={refreshTrigger}
+        username={user.username}
         />
 
         {/* Main Content */}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Eye, EyeOff, Bot } from 'lucide-react';
+import { loginUser, registerUser, EmailNotVerifiedError } from '@/lib/api';
+import VerifyEmailNotice from '@/components/verify-email-notice';
+import { RETURN_TO_PARAM, safeReturnTo } from '@/lib/auth';
+
+export default function LoginPage() {
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [mounted, setMounted] = useState(false);
+  const [tab, setTab] = useState('login');
+  // Address to confirm before logging in; null while the forms are shown
+  const [verifyEmailFor, setVerifyEmailFor] = useState<string | null>(null);
+  const router = useRouter();
+
+  const [loginForm, setLoginForm] = useState({
+    username: '',
+    password: ''
+  });
+
+  const [signupForm, setSignupForm] = useState({
+    username: '',
+    emailaddress: '',
+    password: '',
+    confirmPassword: ''
+  });
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const validateEmail = (email: string) => {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!email) {
+      setEmailError('');
+      return true;
+    }
+    if (!emailRegex.test(email)) {
+      setEmailError('Please enter a valid email address');
+      return false;
+    }
+    setEmailError('');
+    return true;
+  };
+
+  const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const email = e.target.value;
+    setSignupForm({...signupForm, emailaddress: email});
+    validateEmail(email);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mounted) return; // Prevent execution before mounting
+    
+    setLoading(true);
+    setError('');
+
+    try {
+      console.log('Attempting login with:', loginForm.username);
+      // The session is kept in httpOnly cookies set by the API
+      const response = await loginUser(loginForm.username, loginForm.password);
+      console.log('Login response:', response);
+      
+      // Back to the page that sent us here, or the main page
+      const returnTo = safeReturnTo(new URLSearchParams(window.location.search).get(RETURN_TO_PARAM));
+      console.log('Redirecting to', returnTo);
+      router.push(returnTo);
+    } catch (err) {
+      console.error('Login error:', err);
+      if (err instanceof EmailNotVerifiedError) {
+        setVerifyEmailFor('');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mounted) return; // Prevent execution before mounting
+    
+    setLoading(true);
+    setError('');
+    setEmailError('');
+
+    try {
+      // Validate email format
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(signupForm.emailaddress)) {
+        setError('Please enter a valid email address');
+        return;
+      }
+
+      // Validate username
+      if (signupForm.username.length < 3) {
+        setError('Username must be at least 3 characters long');
+        return;
+      }
+
+      if (signupForm.password !== signupForm.confirmPassword) {
+        setError('Passwords do not match');
+        return;
+      }
+
+      if (signupForm.password.length < 6) {
+        setError('Password must be at least 6 characters');
+        return;
+      }
+
+      const response = await registerUser({
+        username: signupForm.username,
+        password: signupForm.password,
+        emailaddress: signupForm.emailaddress
+      });
+
+      // Registration successful; the account can be used once the email is verified
+      console.log('Registration successful:', response.message);
+      setVerifyEmailFor(response.user.emailaddress);
+      setLoginForm({ username: response.user.username, password: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Signup failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!mounted) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-full mb-4">
+            <Bot className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Healthcare Chatbot</h1>
+          <p className="text-gray-600">Sign in to start chatting with AI</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Welcome</CardTitle>
+            <CardDescription>
+              Sign in to your account or create a new one
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {verifyEmailFor !== null ? (
+              <VerifyEmailNotice
+                emailaddress={verifyEmailFor}
+                onBack={() => {
+                  setVerifyEmailFor(null);
+                  setTab('login');
+                }}
+              />
+            ) : (
+              <Tabs value={tab} onValueChange={setTab} className="w-full">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login">Login</TabsTrigger>
+                  <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                </TabsList>
+              
+                <TabsContent value="login">
+                  <form onSubmit={handleLogin} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        type="text"
+                        placeholder="Enter your username"
+                        value={loginForm.username}
+                        onChange={(e) => setLoginForm({...loginForm, username: e.target.value})}
+                        required
+                      />
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="password">Password</Label>
+                        <Link href="/reset-password" className="text-sm text-blue-600 hover:underline">
+                          Forgot password?
+                        </Link>
+                      </div>
+                      <div className="relative">
+                        <Input
+                          id="password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Enter your password"
+                          value={loginForm.password}
+                          onChange={(e) => setLoginForm({...loginForm, password: e.target.value})}
+                          required
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+
+                    {error && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? 'Signing in...' : 'Sign In'}
+                    </Button>
+                  </form>
+                </TabsContent>
+              
+                <TabsContent value="signup">
+                  <form onSubmit={handleSignup} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username-signup">Username</Label>
+                      <Input
+                        id="username-signup"
+                        type="text"
+                        placeholder="Enter your username"
+                        value={signupForm.username}
+                        onChange={(e) => setSignupForm({...signupForm, username: e.target.value})}
+                        required
+                      />
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-email">Email</Label>
+                      <Input
+                        id="signup-email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={signupForm.emailaddress}
+                        onChange={handleEmailChange}
+                        required
+                        className={emailError ? 'border-red-500' : ''}
+                      />
+                      {emailError && (
+                        <p className="text-sm text-red-500">{emailError}</p>
+                      )}
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <Input
+                        id="signup-password"
+                        type="password"
+                        placeholder="Create a password"
+                        value={signupForm.password}
+                        onChange={(e) => setSignupForm({...signupForm, password: e.target.value})}
+                        required
+                      />
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-password">Confirm Password</Label>
+                      <Input
+                        id="confirm-password"
+                        type="password"
+                        placeholder="Confirm your password"
+                        value={signupForm.confirmPassword}
+                        onChange={(e) => setSignupForm({...signupForm, confirmPassword: e.target.value})}
+                        required
+                      />
+                    </div>
+
+                    {error && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? 'Creating account...' : 'Create Account'}
+                    </Button>
+                  </form>
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Bot, MailCheck } from 'lucide-react';
+import { requestPasswordReset } from '@/lib/api';
+import { isValidEmail } from '@/lib/utils';
+
+// First step of a password reset: ask for the account's email and send it a link
+export default function RequestPasswordResetPage() {
+  const [emailaddress, setEmailaddress] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!isValidEmail(emailaddress.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await requestPasswordReset(emailaddress.trim());
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-full mb-4">
+            <Bot className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Healthcare Chatbot</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset your password</CardTitle>
+            <CardDescription>
+              Enter the email address of your account and we&apos;ll send you a link to choose a new password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sent ? (
+              <div className="space-y-4 text-center">
+                <MailCheck className="w-10 h-10 text-blue-600 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  If an account uses <span className="font-medium text-gray-900">{emailaddress.trim()}</span>,
+                  a reset link is on its way. It can be used once and expires after a short while.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setSent(false)}>
+                  Use a different address
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-email">Email</Label>
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={emailaddress}
+                    onChange={(e) => setEmailaddress(e.target.value)}
+                    required
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? 'Sending...' : 'Send reset link'}
+                </Button>
+              </form>
+            )}
+            <p className="text-sm text-center text-gray-600 mt-4">
+              <Link href="/login" className="text-blue-600 hover:underline">Back to login</Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
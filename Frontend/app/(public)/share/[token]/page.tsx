@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Card } from '@/components/ui/card';
+import { Bot, Link2Off, User } from 'lucide-react';
+import MessageContent from '@/components/message-content';
+import { getSharedConversation, type SharedConversation } from '@/lib/api';
+import { MEDICAL_DISCLAIMER } from '@/lib/export';
+import { formatDate, generateConversationTitle } from '@/lib/utils';
+
+// Public, read-only view of a shared conversation; needs no login
+export default function SharedConversationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedConversation(token)
+      .then(setConversation)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load shared conversation'));
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 text-center px-4">
+        <Link2Off className="w-10 h-10 text-gray-400 mb-4" />
+        <h1 className="text-lg font-semibold text-gray-900 mb-2">Conversation unavailable</h1>
+        <p className="text-gray-600 max-w-md">{error}</p>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const firstMessage = conversation.messages.find((message) => message.role === 'user')?.content ?? '';
+  const title = conversation.title || generateConversationTitle(firstMessage);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="flex items-center space-x-3 max-w-4xl mx-auto">
+          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold text-sm">AI</span>
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-900 truncate">{title}</h1>
+            <p className="text-xs text-gray-500">
+              Shared {formatDate(conversation.shared_at)} · Read-only
+              {conversation.expires_at && ` · Available until ${formatDate(conversation.expires_at)}`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-6">
+        {conversation.messages.map((message) => (
+          <div
+            key={message.id}
+            className={`flex items-start space-x-4 ${message.role === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}
+          >
+            <Avatar className={`w-10 h-10 flex-shrink-0 ${message.role === 'user' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+              <AvatarFallback>
+                {message.role === 'user' ? (
+                  <User className="w-5 h-5 text-white" />
+                ) : (
+                  <Bot className="w-5 h-5 text-white" />
+                )}
+              </AvatarFallback>
+            </Avatar>
+            <div className={`flex-1 min-w-0 ${message.role === 'user' ? 'text-right' : ''}`}>
+              <div className={`inline-block max-w-[85%] text-left ${message.role === 'user' ? 'ml-auto' : 'mr-auto'}`}>
+                <Card
+                  className={`p-4 ${
+                    message.role === 'user'
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white border-gray-200'
+                  }`}
+                >
+                  <MessageContent content={message.content} isUser={message.role === 'user'} />
+                  <p className={`text-xs mt-3 ${message.role === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {formatDate(message.timestamp)}
+                    {message.stopped && ' • stopped'}
+                  </p>
+                </Card>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <footer className="pt-4 border-t border-gray-200 text-xs text-gray-500">
+          {MEDICAL_DISCLAIMER}
+        </footer>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Bot, CheckCircle, XCircle } from 'lucide-react';
+import { verifyEmail } from '@/lib/api';
+
+// Opened from the link emailed at registration; confirms the address straight away
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  // The token works once, so don't send it again when effects run twice in development
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to verify email address');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-full mb-4">
+            <Bot className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Healthcare Chatbot</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email verification</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {status === 'verifying' ? (
+              <div className="flex items-center justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-4 text-center">
+                {status === 'verified' ? (
+                  <>
+                    <CheckCircle className="w-10 h-10 text-green-600 mx-auto" />
+                    <p className="text-sm text-gray-600">Your email address is confirmed. You can now log in.</p>
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="w-10 h-10 text-red-600 mx-auto" />
+                    <p className="text-sm text-gray-600">{error}</p>
+                    <p className="text-sm text-gray-600">Log in to get a new link sent to you.</p>
+                  </>
+                )}
+                <Button className="w-full" onClick={() => router.push('/login')}>
+                  Go to login
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,18 @@
 import { useState, useRef, useEffect, useMemo, useLayoutEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Card } from '@/components/ui/card';
-import { Send, Bot, User, Trash2, MessageSquare } from 'lucide-react';
-import { useChatStore } from '@/lib/chat-store';
+import { Send, Bot, User, Trash2, MessageSquare, Square, Pencil, ChevronLeft, ChevronRight, RefreshCw, ThumbsUp, ThumbsDown, Download, Share2, GitBranch } from 'lucide-react';
+import { toast } from 'sonner';
+import { useChatStore, getSiblings, type Message } from '@/lib/chat-store';
+import { forkConversation, type FeedbackRating } from '@/lib/api';
 import MessageContent from '@/components/message-content';
+import ExportMenu from '@/components/export-menu';
+import ShareDialog from '@/components/share-dialog';
+import { parseDate } from '@/lib/utils';
 
 interface ChatInterfaceProps {
   user: { user_id: number; username: string; emailaddress: string } | null;
@@ -21,6 +27,13 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [lastMessageCount, setLastMessageCount] = useState(0);
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [feedbackMessageId, setFeedbackMessageId] = useState<string | null>(null);
+  const [feedbackReason, setFeedbackReason] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isForking, setIsForking] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const prevConversationIdRef = useRef<number | null>(null);
@@ -28,13 +41,22 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
   // Zustand store
   const {
     messages,
+    messageTree,
     isLoading,
     isStreaming,
+    stopRequested,
     streamingMessage,
     currentConversationId,
+    focusMessageId,
     setCurrentConversation,
     loadConversation,
+    clearFocusMessage,
     sendMessage,
+    editMessage,
+    switchBranch,
+    regenerate,
+    rateMessage,
+    stopGeneration,
     clearChat
   } = useChatStore();
 
@@ -55,8 +77,10 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
           setTimeout(() => {
             setIsTransitioning(false);
             setShouldAutoScroll(true);
-            // Scroll to bottom after everything is settled
-            setTimeout(() => scrollToBottom(), 50);
+            // Scroll to bottom after everything is settled, unless a message is to be focused
+            if (!useChatStore.getState().focusMessageId) {
+              setTimeout(() => scrollToBottom(), 50);
+            }
           }, 150);
         });
       } else {
@@ -107,6 +131,22 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
     }
   }, [isStreaming, shouldAutoScroll, isTransitioning, streamingMessage]);
 
+  // Bring the focused message (e.g. a search result) into view and flash it
+  useEffect(() => {
+    if (!focusMessageId || isLoading || isTransitioning) return;
+
+    const timer = setTimeout(() => {
+      const element = scrollAreaRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`);
+      if (element) {
+        element.scrollIntoView({ block: 'center' });
+        setHighlightedMessageId(focusMessageId);
+        setTimeout(() => setHighlightedMessageId(null), 2000);
+      }
+      clearFocusMessage();
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, isLoading, isTransitioning, messages, clearFocusMessage]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading || isStreaming) return;
@@ -128,8 +168,89 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
     }
   };
 
+  const handleStartEdit = (messageId: string, content: string) => {
+    setEditingMessageId(messageId);
+    setEditDraft(content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditDraft('');
+  };
+
+  const handleSubmitEdit = async (messageId: string) => {
+    const content = editDraft.trim();
+    if (!content || isLoading || isStreaming) return;
+
+    handleCancelEdit();
+    setShouldAutoScroll(true);
+    setLastMessageCount(0);
+
+    try {
+      await editMessage(messageId, content);
+    } catch (error) {
+      console.error('Error editing message:', error);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (isLoading || isStreaming) return;
+    setShouldAutoScroll(true);
+
+    try {
+      await regenerate();
+    } catch (error) {
+      console.error('Error regenerating reply:', error);
+    }
+  };
+
+  // Continue in a new conversation from this message; the original stays as it is
+  const handleFork = async (messageId: string) => {
+    if (!currentConversationId || isForking || isLoading || isStreaming) return;
+    setIsForking(true);
+
+    try {
+      const forked = await forkConversation(currentConversationId, messageId);
+      setCurrentConversation(forked.conversation_id);
+      onConversationCreated(forked.conversation_id);
+      toast('Forked into a new conversation');
+    } catch (error) {
+      console.error('Error forking conversation:', error);
+      toast.error('Failed to fork conversation');
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  // Voting again on the same rating withdraws it; a new vote asks for an optional reason
+  const handleRate = async (message: Message, rating: FeedbackRating) => {
+    const withdraw = message.feedback?.rating === rating;
+    setFeedbackMessageId(withdraw ? null : message.id);
+    setFeedbackReason('');
+
+    try {
+      await rateMessage(message.id, withdraw ? null : rating);
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+    }
+  };
+
+  const handleSubmitFeedbackReason = async (message: Message) => {
+    const rating = message.feedback?.rating;
+    const reason = feedbackReason.trim();
+    setFeedbackMessageId(null);
+    setFeedbackReason('');
+    if (!rating || !reason) return;
+
+    try {
+      await rateMessage(message.id, rating, reason);
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+    }
+  };
+
   const formatTime = (timestamp: string) => {
-    const messageDate = new Date(timestamp);
+    const messageDate = parseDate(timestamp);
     const now = new Date();
     const diffInMs = now.getTime() - messageDate.getTime();
     const diffInMinutes = Math.floor(diffInMs / (1000 * 60));
@@ -163,59 +284,237 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
 
   // Memoize messages rendering to prevent unnecessary re-renders
   const memoizedMessages = useMemo(() => {
-    return messages.map((message, index) => (
-      <div
-        key={`${message.role}-${index}-${message.created_at}`}
-        className={`flex items-start space-x-4 transition-all duration-200 ${
-          message.role === 'user' ? 'flex-row-reverse space-x-reverse' : ''
-        }`}
-      >
-        {/* Avatar */}
-        <Avatar className={`w-10 h-10 flex-shrink-0 ${
-          message.role === 'user' ? 'bg-blue-600' : 'bg-gray-600'
-        }`}>
-          <AvatarFallback>
-            {message.role === 'user' ? (
-              <User className="w-5 h-5 text-white" />
-            ) : (
-              <Bot className="w-5 h-5 text-white" />
-            )}
-          </AvatarFallback>
-        </Avatar>
+    return messages.map((message, index) => {
+      // Other versions of this message, from edits or regenerations
+      const siblings = getSiblings(messageTree, message);
+      const version = siblings.findIndex((sibling) => sibling.id === message.id) + 1;
+      // Messages the server hasn't confirmed yet still carry a temporary id
+      const isSaved = !message.id.startsWith('local-');
+      const canRegenerate = message.role === 'assistant' && isSaved && index === messages.length - 1;
+      const canEdit = message.role === 'user' && isSaved;
+      const canRate = message.role === 'assistant' && isSaved
+        && !(isStreaming && index === messages.length - 1);
+      const canFork = isSaved && !isLoading && !isStreaming;
+
+      return (
+        <div
+          key={message.id}
+          data-message-id={message.id}
+          className={`group flex items-start space-x-4 transition-all duration-200 ${
+            message.role === 'user' ? 'flex-row-reverse space-x-reverse' : ''
+          } ${highlightedMessageId === message.id ? 'rounded-lg ring-2 ring-yellow-300 ring-offset-4' : ''}`}
+        >
+          {/* Avatar */}
+          <Avatar className={`w-10 h-10 flex-shrink-0 ${
+            message.role === 'user' ? 'bg-blue-600' : 'bg-gray-600'
+          }`}>
+            <AvatarFallback>
+              {message.role === 'user' ? (
+                <User className="w-5 h-5 text-white" />
+              ) : (
+                <Bot className="w-5 h-5 text-white" />
+              )}
+            </AvatarFallback>
+          </Avatar>
         
-        {/* Message Content */}
-        <div className={`flex-1 min-w-0 ${
-          message.role === 'user' ? 'text-right' : ''
-        }`}>
-          <div className={`inline-block max-w-[85%] ${
-            message.role === 'user' ? 'ml-auto' : 'mr-auto'
+          {/* Message Content */}
+          <div className={`flex-1 min-w-0 ${
+            message.role === 'user' ? 'text-right' : ''
           }`}>
-            <Card
-              className={`p-4 ${
-                message.role === 'user'
-                  ? 'bg-blue-600 text-white border-blue-600'
-                  : 'bg-gray-50 border-gray-200'
-              }`}
-            >
-              <MessageContent 
-                content={message.content} 
-                isUser={message.role === 'user'} 
-              />
-              <p
-                className={`text-xs mt-3 ${
-                  message.role === 'user'
-                    ? 'text-blue-100'
-                    : 'text-gray-500'
-                }`}
-              >
-                {formatTime(message.created_at)}
-              </p>
-            </Card>
+            <div className={`inline-block max-w-[85%] ${
+              message.role === 'user' ? 'ml-auto' : 'mr-auto'
+            }`}>
+              {editingMessageId === message.id ? (
+                <Card className="p-3 bg-white border-blue-600 text-left">
+                  <Textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSubmitEdit(message.id);
+                      } else if (e.key === 'Escape') {
+                        handleCancelEdit();
+                      }
+                    }}
+                    maxLength={1000}
+                    autoFocus
+                    className="min-w-[300px] bg-white"
+                  />
+                  <div className="flex justify-end space-x-2 mt-2">
+                    <Button variant="ghost" size="sm" onClick={handleCancelEdit}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSubmitEdit(message.id)}
+                      disabled={!editDraft.trim() || isLoading || isStreaming}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      Save & Regenerate
+                    </Button>
+                  </div>
+                </Card>
+              ) : (
+                <Card
+                  className={`p-4 ${
+                    message.role === 'user'
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <MessageContent 
+                    content={message.content} 
+                    isUser={message.role === 'user'} 
+                  />
+                  <p
+                    className={`text-xs mt-3 ${
+                      message.role === 'user'
+                        ? 'text-blue-100'
+                        : 'text-gray-500'
+                    }`}
+                  >
+                    {formatTime(message.created_at)}
+                    {message.stopped && ' • stopped'}
+                  </p>
+                </Card>
+              )}
+              {editingMessageId !== message.id && (siblings.length > 1 || canEdit || canRegenerate || canRate || canFork) && (
+                <div className={`flex items-center mt-1 space-x-1 text-xs text-gray-500 ${
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
+                }`}>
+                  {siblings.length > 1 && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => switchBranch(message.id, -1)}
+                        disabled={version === 1 || isLoading || isStreaming}
+                        className="h-6 w-6 p-0"
+                      >
+                        <ChevronLeft className="w-3 h-3" />
+                      </Button>
+                      <span className="tabular-nums">{version}/{siblings.length}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => switchBranch(message.id, 1)}
+                        disabled={version === siblings.length || isLoading || isStreaming}
+                        className="h-6 w-6 p-0"
+                      >
+                        <ChevronRight className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                  {canRegenerate && !isLoading && !isStreaming && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRegenerate}
+                      className="h-6 px-2 text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      Regenerate
+                    </Button>
+                  )}
+                  {canRate && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRate(message, 'up')}
+                        title="Good answer"
+                        className={`h-6 w-6 p-0 ${
+                          message.feedback?.rating === 'up' ? 'text-green-600 hover:text-green-700' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        <ThumbsUp className={`w-3 h-3 ${message.feedback?.rating === 'up' ? 'fill-current' : ''}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRate(message, 'down')}
+                        title="Bad answer"
+                        className={`h-6 w-6 p-0 ${
+                          message.feedback?.rating === 'down' ? 'text-red-600 hover:text-red-700' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        <ThumbsDown className={`w-3 h-3 ${message.feedback?.rating === 'down' ? 'fill-current' : ''}`} />
+                      </Button>
+                      {message.feedback?.reason && feedbackMessageId !== message.id && (
+                        <span className="truncate max-w-[240px] italic" title={message.feedback.reason}>
+                          "{message.feedback.reason}"
+                        </span>
+                      )}
+                    </>
+                  )}
+                  {canEdit && !isLoading && !isStreaming && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleStartEdit(message.id, message.content)}
+                      className="h-6 px-2 text-xs text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Pencil className="w-3 h-3 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {canFork && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleFork(message.id)}
+                      disabled={isForking}
+                      title="Start a new conversation from this message"
+                      className="h-6 px-2 text-xs text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <GitBranch className="w-3 h-3 mr-1" />
+                      Fork from here
+                    </Button>
+                  )}
+                </div>
+              )}
+              {feedbackMessageId === message.id && message.feedback && (
+                <Card className="p-3 mt-1 bg-white border-gray-200 text-left">
+                  <p className="text-xs text-gray-600 mb-2">
+                    {message.feedback.rating === 'up' ? 'What was helpful?' : 'What was wrong with this answer?'} (optional)
+                  </p>
+                  <Textarea
+                    value={feedbackReason}
+                    onChange={(e) => setFeedbackReason(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSubmitFeedbackReason(message);
+                      } else if (e.key === 'Escape') {
+                        setFeedbackMessageId(null);
+                      }
+                    }}
+                    maxLength={1000}
+                    autoFocus
+                    className="min-w-[300px] bg-white text-sm"
+                  />
+                  <div className="flex justify-end space-x-2 mt-2">
+                    <Button variant="ghost" size="sm" onClick={() => setFeedbackMessageId(null)}>
+                      Skip
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSubmitFeedbackReason(message)}
+                      disabled={!feedbackReason.trim()}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      Send feedback
+                    </Button>
+                  </div>
+                </Card>
+              )}
+            </div>
           </div>
         </div>
-      </div>
-    ));
-  }, [messages, isTransitioning]); // Re-memoize when messages or transition state changes
+      );
+    });
+  }, [messages, messageTree, isTransitioning, editingMessageId, editDraft, feedbackMessageId, feedbackReason, highlightedMessageId, isLoading, isStreaming, isForking]); // Re-memoize when messages, transition, edit, feedback, highlight or fork state changes
 
   return (
     <div className="flex flex-col h-[calc(100vh-4rem)] max-h-[900px] w-full max-w-5xl mx-auto bg-white border rounded-lg shadow-lg">
@@ -224,15 +523,42 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
         <div className="flex items-center space-x-3">
         </div>
         {messages.length > 0 && (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={clearChat}
-            className="flex items-center space-x-2 text-red-600 hover:text-red-700 hover:bg-red-50"
-          >
-            <Trash2 className="w-4 h-4" />
-            <span>Clear Chat</span>
-          </Button>
+          <div className="flex items-center space-x-2">
+            {currentConversationId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsShareOpen(true)}
+                disabled={isStreaming}
+                className="flex items-center space-x-2"
+              >
+                <Share2 className="w-4 h-4" />
+                <span>Share</span>
+              </Button>
+            )}
+            {currentConversationId && (
+              <ExportMenu conversationIds={[currentConversationId]} username={user?.username || 'User'}>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isStreaming}
+                  className="flex items-center space-x-2"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export</span>
+                </Button>
+              </ExportMenu>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={clearChat}
+              className="flex items-center space-x-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Clear Chat</span>
+            </Button>
+          </div>
         )}
       </div>
 
@@ -338,17 +664,30 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
             className="flex-1 bg-white border-gray-300 focus:border-blue-500 focus:ring-blue-500"
             maxLength={1000}
           />
-          <Button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="px-6 bg-blue-600 hover:bg-blue-700 focus:ring-blue-500"
-          >
-            {isLoading ? (
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-            ) : (
-              <Send className="w-4 h-4" />
-            )}
-          </Button>
+          {isStreaming ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={stopGeneration}
+              disabled={stopRequested}
+              className="px-6 flex items-center space-x-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Square className="w-4 h-4 fill-current" />
+              <span>Stop</span>
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!input.trim() || isLoading}
+              className="px-6 bg-blue-600 hover:bg-blue-700 focus:ring-blue-500"
+            >
+              {isLoading ? (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </Button>
+          )}
         </form>
         <div className="flex justify-between items-center mt-2">
           <p className="text-xs text-gray-500">
@@ -366,6 +705,10 @@ export default function ChatInterface({ user, conversationId, onConversationCrea
           </p>
         </div>
       </div>
+
+      {currentConversationId && (
+        <ShareDialog conversationId={currentConversationId} open={isShareOpen} onOpenChange={setIsShareOpen} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import MessageContent from '@/components/message-content';
+import type { Conversation } from '@/lib/api';
+import { MEDICAL_DISCLAIMER, exportFileName, exportTitle, speakerLabel } from '@/lib/export';
+import { formatDate } from '@/lib/utils';
+
+interface ConversationPrintViewProps {
+  conversations: Conversation[];
+  username: string;
+  // Called once the print dialog has closed
+  onDone: () => void;
+}
+
+// Rendered into <body> only while printing. globals.css hides everything else
+// during print, so the browser's "Save as PDF" captures just the transcript.
+export default function ConversationPrintView({ conversations, username, onDone }: ConversationPrintViewProps) {
+  const [exportedAt] = useState(() => new Date());
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    // The document title is what browsers suggest as the PDF file name
+    const previousTitle = document.title;
+    document.title = exportFileName(conversations, 'pdf').replace(/\.pdf$/, '');
+    const handleAfterPrint = () => onDoneRef.current();
+    window.addEventListener('afterprint', handleAfterPrint);
+    // Give the portal a moment to paint before the print dialog blocks the page
+    const timer = setTimeout(() => window.print(), 100);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('afterprint', handleAfterPrint);
+      document.title = previousTitle;
+    };
+  }, [conversations]);
+
+  return createPortal(
+    <div className="print-root hidden print:block bg-white text-gray-900">
+      {conversations.map((conversation, index) => (
+        <section key={conversation.conversation_id} className={index > 0 ? 'break-before-page' : ''}>
+          <h1 className="text-2xl font-bold mb-1">{exportTitle(conversation)}</h1>
+          <p className="text-sm text-gray-600">
+            Started {formatDate(conversation.timestamp)} · Exported by {username} on {formatDate(exportedAt)}
+          </p>
+          <div className="mt-6 space-y-4">
+            {conversation.messages.map((message) => (
+              <div key={message.id} className="break-inside-avoid">
+                <p className="text-xs font-semibold text-gray-500 mb-1">
+                  {speakerLabel(message, username)} · {formatDate(message.timestamp)}
+                </p>
+                <div
+                  className={`rounded-lg px-4 py-3 ${
+                    message.role === 'user' ? 'bg-blue-600' : 'border border-gray-200'
+                  }`}
+                  style={{ printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+                >
+                  <MessageContent content={message.content} isUser={message.role === 'user'} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <footer className="mt-8 pt-4 border-t border-gray-300 text-xs text-gray-600">
+            {MEDICAL_DISCLAIMER}
+          </footer>
+        </section>
+      ))}
+    </div>,
+    document.body
+  );
+}
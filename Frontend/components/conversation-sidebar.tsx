@@ -1,39 +1,126 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
-import { Plus, MessageSquare, Trash2, Menu } from 'lucide-react';
-import { useConversationStore } from '@/lib/conversation-store';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Plus, MessageSquare, Trash2, Menu, Search, X, Bot, User, Pencil, ChevronDown, Pin, PinOff, Archive, ArchiveRestore, ArrowLeft, RotateCcw, ListChecks, Tag as TagIcon, Download, Upload } from 'lucide-react';
+import FolderTree, { CONVERSATION_DRAG_TYPE } from '@/components/folder-tree';
+import TagFilterBar, { TagBadge, TagPicker } from '@/components/tag-filter-bar';
+import ExportMenu from '@/components/export-menu';
+import ImportDialog from '@/components/import-dialog';
+import { useConversationStore, type Conversation } from '@/lib/conversation-store';
+import { useChatStore } from '@/lib/chat-store';
+import { searchConversations, isAbortError, type SearchResult, type BatchAction, type BatchOptions, type BatchResult } from '@/lib/api';
+import { generateConversationTitle, formatRelativeTime, getDateGroup, parseDate, DATE_GROUPS } from '@/lib/utils';
 
 interface ConversationSidebarProps {
   currentConversationId: number | null;
   onSelectConversation: (conversationId: number | null) => void;
   onNewConversation: () => void;
   refreshTrigger?: number;
+  // Named as the author of exported transcripts
+  username?: string;
+}
+
+// Conversations without a saved title are named after their first message
+function displayTitle(conversation: Pick<Conversation, 'title' | 'first_message'>): string {
+  return conversation.title || generateConversationTitle(conversation.first_message);
+}
+
+// Wrap every occurrence of the query's words in <mark>
+function highlightMatches(text: string, query: string) {
+  const terms = query.trim().split(/\s+/).filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return text;
+
+  // Splitting on a capturing group puts the matches at odd indexes
+  return text.split(new RegExp(`(${terms.join('|')})`, 'gi')).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{part}</mark>
+    ) : (
+      part
+    )
+  );
 }
 
 export default function ConversationSidebar({ 
   currentConversationId, 
   onSelectConversation, 
   onNewConversation,
-  refreshTrigger
+  refreshTrigger,
+  username = 'User'
 }: ConversationSidebarProps) {
   
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  // Conversations awaiting confirmation before they are deleted for good
+  const [pendingPermanentDelete, setPendingPermanentDelete] = useState<Conversation[]>([]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const loadConversation = useChatStore((state) => state.loadConversation);
+  const focusMessage = useChatStore((state) => state.focusMessage);
   
   // Zustand store
   const {
     conversations,
     isLoading,
+    isLoadingMore,
+    nextCursor,
+    view,
+    trashRetentionDays,
+    tags,
+    folderFilter,
+    tagFilter,
     deleteConversation,
-    refreshConversations
+    undoDelete,
+    restoreFromTrash,
+    deletePermanently,
+    batchAction,
+    renameConversation,
+    pinConversation,
+    archiveConversation,
+    restoreConversation,
+    setView,
+    moveToFolder,
+    setConversationTags,
+    clearFilters,
+    loadFolders,
+    loadTags,
+    refreshConversations,
+    loadMore
   } = useConversationStore();
 
   useEffect(() => {
     refreshConversations();
-  }, [refreshConversations]);
+    loadFolders();
+    loadTags();
+  }, [refreshConversations, loadFolders, loadTags]);
+
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+  const isFiltered = folderFilter !== null || tagFilter.length > 0;
 
   // Refresh when refreshTrigger changes
   useEffect(() => {
@@ -42,18 +129,327 @@ export default function ConversationSidebar({
     }
   }, [refreshTrigger, refreshConversations]);
 
-  const handleDeleteConversation = async (conversationId: number, e: React.MouseEvent) => {
+  // The list is swapped for search results while there is a query
+  const isSearchMode = searchQuery.trim() !== '';
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        setSearchResults(await searchConversations(query, controller.signal));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error searching conversations:', error);
+        setSearchResults([]);
+      }
+      setIsSearching(false);
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  // Open the conversation and scroll to the matched message
+  const handleOpenSearchResult = (result: SearchResult) => {
+    if (result.conversation_id === currentConversationId) {
+      // Already open, so reload it here to bring up the matched branch
+      loadConversation(result.conversation_id, result.message_id);
+      return;
+    }
+    // The chat loads the conversation once it is selected and picks up the focus
+    focusMessage(result.message_id);
+    onSelectConversation(result.conversation_id);
+  };
+
+  // Pinned chats get their own section on top; the rest are bucketed by date.
+  // Conversations arrive ordered by activity, so each bucket keeps that order.
+  const groupedConversations = useMemo(() => {
+    const unpinned = conversations.filter((conv) => !conv.pinned);
+    return [
+      { group: 'Pinned', items: conversations.filter((conv) => conv.pinned) },
+      ...DATE_GROUPS.map((group) => ({
+        group,
+        items: unpinned.filter((conv) => getDateGroup(conv.last_message_at) === group)
+      }))
+    ].filter(({ items }) => items.length > 0);
+  }, [conversations]);
+
+  // Only page in more conversations while the bottom of the list is visible
+  const lastGroup = groupedConversations[groupedConversations.length - 1]?.group;
+  const isLastGroupOpen = !lastGroup || !collapsedGroups.includes(lastGroup);
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const viewport = scrollAreaRef.current?.querySelector('[data-radix-scroll-area-viewport]');
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { root: viewport ?? null, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, isCollapsed, conversations.length, isSearchMode, isLastGroupOpen, view]);
+
+  // Deleting moves the chat to the trash; the toast offers a way straight back
+  const handleDeleteConversation = async (conversation: Conversation, e: React.MouseEvent) => {
     e.stopPropagation();
+    const conversationId = conversation.conversation_id;
+    const wasOpen = currentConversationId === conversationId;
     try {
       await deleteConversation(conversationId);
-      if (currentConversationId === conversationId) {
+      if (wasOpen) {
+        onSelectConversation(null);
+      }
+      toast('Conversation moved to trash', {
+        description: trashRetentionDays
+          ? `It will be deleted permanently after ${trashRetentionDays} days.`
+          : undefined,
+        action: {
+          label: 'Undo',
+          onClick: () => handleUndoDelete([conversation], wasOpen ? conversationId : null),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      toast.error('Failed to delete conversation');
+    }
+  };
+
+  // `reopenId` is the conversation that was open when it got deleted, if any
+  const handleUndoDelete = async (deleted: Conversation[], reopenId: number | null) => {
+    try {
+      await undoDelete(deleted);
+      if (reopenId !== null) {
+        onSelectConversation(reopenId);
+      }
+    } catch (error) {
+      console.error('Failed to restore conversation:', error);
+      toast.error('Failed to restore conversation');
+    }
+  };
+
+  const handleRestoreFromTrash = async (conversationId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await restoreFromTrash(conversationId);
+      toast('Conversation restored');
+    } catch (error) {
+      console.error('Failed to restore conversation:', error);
+      toast.error('Failed to restore conversation');
+    }
+  };
+
+  const handleConfirmPermanentDelete = async () => {
+    const ids = pendingPermanentDelete.map((conv) => conv.conversation_id);
+    setPendingPermanentDelete([]);
+    if (ids.length === 0) return;
+    setSelectedIds((selected) => selected.filter((id) => !ids.includes(id)));
+
+    try {
+      if (ids.length === 1) {
+        await deletePermanently(ids[0]);
+      } else {
+        reportBatchFailures(await batchAction(ids, 'delete_permanently'), 'deleted');
+      }
+      if (currentConversationId !== null && ids.includes(currentConversationId)) {
         onSelectConversation(null);
       }
     } catch (error) {
       console.error('Failed to delete conversation:', error);
+      toast.error('Failed to delete conversation');
     }
   };
 
+  // Selection only covers the loaded conversations of the current view
+  const allSelected = conversations.length > 0
+    && conversations.every((conv) => selectedIds.includes(conv.conversation_id));
+
+  const handleToggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : conversations.map((conv) => conv.conversation_id));
+  };
+
+  useEffect(() => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  }, [view]);
+
+  const handleExitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleToggleSelected = (conversationId: number) => {
+    setSelectedIds((ids) =>
+      ids.includes(conversationId) ? ids.filter((id) => id !== conversationId) : [...ids, conversationId]
+    );
+  };
+
+  const reportBatchFailures = (result: BatchResult, verb: string) => {
+    if (result.failed.length > 0) {
+      toast.error(`${result.failed.length} conversation(s) could not be ${verb}`);
+    }
+  };
+
+  // Bulk actions apply to the selected conversations that are loaded in this view
+  const handleBatchAction = async (action: Exclude<BatchAction, 'delete_permanently'>, options?: BatchOptions) => {
+    const selected = conversations.filter((conv) => selectedIds.includes(conv.conversation_id));
+    if (selected.length === 0) return;
+    const ids = selected.map((conv) => conv.conversation_id);
+    const verbs: Record<typeof action, string> = {
+      delete: 'deleted',
+      restore: 'restored',
+      archive: 'archived',
+      unarchive: 'unarchived',
+      pin: 'pinned',
+      unpin: 'unpinned',
+      move: 'moved',
+      tag: 'tagged',
+      untag: 'untagged',
+    };
+
+    try {
+      const result = await batchAction(ids, action, options);
+      // Tagging keeps the selection so several tags can be applied in a row
+      const listed = new Set(useConversationStore.getState().conversations.map((conv) => conv.conversation_id));
+      setSelectedIds(action === 'tag' || action === 'untag' ? (current) => current.filter((id) => listed.has(id)) : []);
+      reportBatchFailures(result, verbs[action]);
+
+      if (action === 'delete') {
+        const deleted = selected.filter((conv) => result.succeeded.includes(conv.conversation_id));
+        const openId = currentConversationId !== null && result.succeeded.includes(currentConversationId)
+          ? currentConversationId
+          : null;
+        if (openId !== null) {
+          onSelectConversation(null);
+        }
+        if (deleted.length > 0) {
+          toast(`${deleted.length} conversation(s) moved to trash`, {
+            action: {
+              label: 'Undo',
+              onClick: () => handleUndoDelete(deleted, openId),
+            },
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} conversations:`, error);
+      toast.error('Failed to update conversations');
+    }
+  };
+
+  // Dragging one of the selected conversations takes the whole selection along
+  const handleDragStart = (conversation: Conversation, e: React.DragEvent) => {
+    const ids = isSelecting && selectedIds.includes(conversation.conversation_id)
+      ? selectedIds
+      : [conversation.conversation_id];
+    e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDropConversations = async (ids: number[], folderId: number | null) => {
+    const moving = ids.filter((id) =>
+      conversations.find((conv) => conv.conversation_id === id)?.folder_id !== folderId
+    );
+    if (moving.length === 0) return;
+
+    try {
+      reportBatchFailures(await moveToFolder(moving, folderId), 'moved');
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Failed to move conversations:', error);
+      toast.error('Failed to move conversations');
+    }
+  };
+
+  const handleToggleTag = async (conversation: Conversation, tagId: number, checked: boolean) => {
+    const tagIds = checked
+      ? [...conversation.tag_ids, tagId]
+      : conversation.tag_ids.filter((id) => id !== tagId);
+    try {
+      await setConversationTags(conversation.conversation_id, tagIds);
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      toast.error('Failed to update tags');
+    }
+  };
+
+  // Checked when every selected conversation has the tag
+  const selectionTagState = (tagId: number): boolean | 'indeterminate' => {
+    const selected = conversations.filter((conv) => selectedIds.includes(conv.conversation_id));
+    const tagged = selected.filter((conv) => conv.tag_ids.includes(tagId)).length;
+    return tagged === 0 ? false : tagged === selected.length ? true : 'indeterminate';
+  };
+
+  const handleTogglePin = async (conversation: Conversation, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await pinConversation(conversation.conversation_id, !conversation.pinned);
+    } catch (error) {
+      console.error('Failed to pin conversation:', error);
+    }
+  };
+
+  const handleArchive = async (conversationId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await archiveConversation(conversationId);
+    } catch (error) {
+      console.error('Failed to archive conversation:', error);
+    }
+  };
+
+  const handleRestore = async (conversationId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await restoreConversation(conversationId);
+    } catch (error) {
+      console.error('Failed to restore conversation:', error);
+    }
+  };
+
+  const handleStartRename = (conversation: Conversation, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRenamingId(conversation.conversation_id);
+    setRenameDraft(displayTitle(conversation));
+  };
+
+  const handleSubmitRename = async () => {
+    if (renamingId === null) return;
+    const conversationId = renamingId;
+    const conversation = conversations.find((conv) => conv.conversation_id === conversationId);
+    setRenamingId(null);
+    if (!conversation || renameDraft.trim() === displayTitle(conversation)) return;
+
+    try {
+      await renameConversation(conversationId, renameDraft);
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const handleToggleGroup = (group: string, open: boolean) => {
+    setCollapsedGroups((groups) =>
+      open ? groups.filter((g) => g !== group) : [...groups, group]
+    );
+  };
+
   const handleNewConversation = () => {
     onNewConversation();
   };
@@ -63,13 +459,192 @@ export default function ConversationSidebar({
   };
 
   const formatTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleDateString();
+    return parseDate(timestamp).toLocaleDateString();
+  };
+
+  // Clock time for recent activity, relative age for anything older
+  const formatActivityTime = (timestamp: string) => {
+    const group = getDateGroup(timestamp);
+    if (group === 'Today' || group === 'Yesterday') {
+      return parseDate(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+    return formatRelativeTime(timestamp);
   };
 
   const truncateMessage = (message: string, maxLength: number = 50) => {
     return message.length > maxLength ? message.substring(0, maxLength) + '...' : message;
   };
 
+  const renderConversation = (conversation: Conversation) => (
+    <Card
+      key={conversation.conversation_id}
+      className={`p-3 cursor-pointer transition-colors hover:bg-gray-100 group ${
+        currentConversationId === conversation.conversation_id
+          ? 'bg-blue-50 border-blue-200'
+          : 'bg-white'
+      }`}
+      draggable={view === 'active' && renamingId !== conversation.conversation_id}
+      onDragStart={(e) => handleDragStart(conversation, e)}
+      onClick={() => {
+        if (isSelecting) {
+          handleToggleSelected(conversation.conversation_id);
+        } else if (renamingId !== conversation.conversation_id) {
+          onSelectConversation(conversation.conversation_id);
+        }
+      }}
+    >
+      <div className="flex items-start justify-between">
+        {isSelecting && (
+          <Checkbox
+            checked={selectedIds.includes(conversation.conversation_id)}
+            onCheckedChange={() => handleToggleSelected(conversation.conversation_id)}
+            onClick={(e) => e.stopPropagation()}
+            className="mt-0.5 mr-3"
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-2 mb-1">
+            <MessageSquare className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="text-xs text-gray-500">
+              {conversation.deleted_at
+                ? `Deleted ${formatRelativeTime(conversation.deleted_at).toLowerCase()}`
+                : formatActivityTime(conversation.last_message_at)}
+            </span>
+          </div>
+          {renamingId === conversation.conversation_id ? (
+            <Input
+              value={renameDraft}
+              onChange={(e) => setRenameDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmitRename();
+                } else if (e.key === 'Escape') {
+                  setRenamingId(null);
+                }
+              }}
+              onBlur={handleSubmitRename}
+              maxLength={255}
+              autoFocus
+              className="h-7 text-sm bg-white"
+            />
+          ) : (
+            <p className="text-sm text-gray-900 break-words">
+              {truncateMessage(displayTitle(conversation))}
+            </p>
+          )}
+          {conversation.tag_ids.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {conversation.tag_ids.flatMap((tagId) => {
+                const tag = tagsById.get(tagId);
+                return tag ? [<TagBadge key={tag.id} tag={tag} />] : [];
+              })}
+            </div>
+          )}
+        </div>
+        {!isSelecting && (
+          <>
+          {view === 'trash' ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleRestoreFromTrash(conversation.conversation_id, e)}
+                title="Restore"
+                className="ml-2 p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setPendingPermanentDelete([conversation]);
+                }}
+                title="Delete permanently"
+                className="p-1 opacity-0 group-hover:opacity-100 hover:bg-red-100 hover:text-red-600"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </>
+          ) : conversation.archived ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => handleRestore(conversation.conversation_id, e)}
+              title="Restore"
+              className="ml-2 p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+            >
+              <ArchiveRestore className="w-3 h-3" />
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleTogglePin(conversation, e)}
+                title={conversation.pinned ? 'Unpin' : 'Pin'}
+                className={`ml-2 p-1 group-hover:opacity-100 hover:bg-gray-200 ${
+                  conversation.pinned ? 'opacity-100 text-blue-600' : 'opacity-0'
+                }`}
+              >
+                {conversation.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleArchive(conversation.conversation_id, e)}
+                title="Archive"
+                className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+              >
+                <Archive className="w-3 h-3" />
+              </Button>
+            </>
+          )}
+          {view !== 'trash' && (
+            <>
+              <TagPicker
+                isChecked={(tagId) => conversation.tag_ids.includes(tagId)}
+                onToggle={(tagId, checked) => handleToggleTag(conversation, tagId, checked)}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => e.stopPropagation()}
+                  title="Tags"
+                  className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+                >
+                  <TagIcon className="w-3 h-3" />
+                </Button>
+              </TagPicker>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleStartRename(conversation, e)}
+                title="Rename"
+                className="p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleDeleteConversation(conversation, e)}
+                title="Delete"
+                className="p-1 opacity-0 group-hover:opacity-100 hover:bg-red-100 hover:text-red-600"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </>
+          )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+
   if (isCollapsed) {
     return (
       <div className="w-16 bg-gray-50 border-r border-gray-200 flex flex-col items-center p-2">
@@ -98,14 +673,64 @@ export default function ConversationSidebar({
       {/* Header */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-3">
-          <h2 className="font-semibold text-gray-900">Chat Sessions</h2>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleToggleCollapse}
-          >
-            <Menu className="w-4 h-4" />
-          </Button>
+          {view !== 'active' ? (
+            <button
+              onClick={() => setView('active')}
+              className="flex items-center space-x-2 font-semibold text-gray-900 hover:text-gray-700"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>{view === 'trash' ? 'Trash' : 'Archived'}</span>
+            </button>
+          ) : (
+            <h2 className="font-semibold text-gray-900">Chat Sessions</h2>
+          )}
+          <div className="flex items-center">
+            {conversations.length > 0 && (
+              <Button
+                variant={isSelecting ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => (isSelecting ? handleExitSelection() : setIsSelecting(true))}
+                title="Select conversations"
+              >
+                <ListChecks className="w-4 h-4" />
+              </Button>
+            )}
+            {view === 'active' && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsImportOpen(true)}
+                  title="Import conversations"
+                >
+                  <Upload className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setView('archived')}
+                  title="Archived chats"
+                >
+                  <Archive className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setView('trash')}
+                  title="Trash"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleToggleCollapse}
+            >
+              <Menu className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
         <Button
           onClick={handleNewConversation}
@@ -114,58 +739,258 @@ export default function ConversationSidebar({
           <Plus className="w-4 h-4" />
           <span>New Chat</span>
         </Button>
+        <div className="relative mt-3">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setSearchQuery('');
+            }}
+            placeholder="Search conversations"
+            maxLength={200}
+            className="pl-8 pr-8 bg-white"
+          />
+          {searchQuery && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSearchQuery('')}
+              className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+        {view === 'active' && <TagFilterBar />}
       </div>
 
+      {/* Bulk actions for the selected conversations */}
+      {isSelecting && !isSearchMode && (
+        <div className="px-4 py-2 border-b border-gray-200 bg-white space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <Checkbox
+                checked={allSelected ? true : selectedIds.length > 0 ? 'indeterminate' : false}
+                onCheckedChange={handleToggleSelectAll}
+              />
+              <span>{selectedIds.length} selected</span>
+            </label>
+            <Button variant="ghost" size="sm" onClick={handleExitSelection} className="h-7 px-2 text-xs">
+              Done
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {view === 'active' && (
+              <>
+                <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => handleBatchAction('pin')} className="h-7 px-2 text-xs">
+                  <Pin className="w-3 h-3 mr-1" />
+                  Pin
+                </Button>
+                <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => handleBatchAction('unpin')} className="h-7 px-2 text-xs">
+                  <PinOff className="w-3 h-3 mr-1" />
+                  Unpin
+                </Button>
+                <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => handleBatchAction('archive')} className="h-7 px-2 text-xs">
+                  <Archive className="w-3 h-3 mr-1" />
+                  Archive
+                </Button>
+              </>
+            )}
+            {view === 'archived' && (
+              <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => handleBatchAction('unarchive')} className="h-7 px-2 text-xs">
+                <ArchiveRestore className="w-3 h-3 mr-1" />
+                Unarchive
+              </Button>
+            )}
+            {view !== 'trash' && (
+              <TagPicker
+                isChecked={selectionTagState}
+                onToggle={(tagId, checked) => handleBatchAction(checked ? 'tag' : 'untag', { tagId })}
+              >
+                <Button variant="outline" size="sm" disabled={selectedIds.length === 0} className="h-7 px-2 text-xs">
+                  <TagIcon className="w-3 h-3 mr-1" />
+                  Tag
+                </Button>
+              </TagPicker>
+            )}
+            <ExportMenu
+              conversationIds={conversations.filter((conv) => selectedIds.includes(conv.conversation_id)).map((conv) => conv.conversation_id)}
+              username={username}
+            >
+              <Button variant="outline" size="sm" disabled={selectedIds.length === 0} className="h-7 px-2 text-xs">
+                <Download className="w-3 h-3 mr-1" />
+                Export
+              </Button>
+            </ExportMenu>
+            {view === 'trash' ? (
+              <>
+                <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => handleBatchAction('restore')} className="h-7 px-2 text-xs">
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Restore
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selectedIds.length === 0}
+                  onClick={() => setPendingPermanentDelete(conversations.filter((conv) => selectedIds.includes(conv.conversation_id)))}
+                  className="h-7 px-2 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Delete forever
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedIds.length === 0}
+                onClick={() => handleBatchAction('delete')}
+                className="h-7 px-2 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Conversations List */}
-      <ScrollArea className="flex-1 p-2">
-        {isLoading ? (
+      <ScrollArea className="flex-1 p-2" ref={scrollAreaRef}>
+        {view === 'active' && !isSearchMode && (
+          <div className="mb-3">
+            <FolderTree onDropConversations={handleDropConversations} />
+          </div>
+        )}
+        {isSearchMode ? (
+          isSearching ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : searchResults.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Search className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No matching messages</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {searchResults.map((result) => (
+                <Card
+                  key={result.message_id}
+                  className={`p-3 cursor-pointer transition-colors hover:bg-gray-100 ${
+                    currentConversationId === result.conversation_id
+                      ? 'bg-blue-50 border-blue-200'
+                      : 'bg-white'
+                  }`}
+                  onClick={() => handleOpenSearchResult(result)}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    {result.role === 'user' ? (
+                      <User className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    ) : (
+                      <Bot className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    )}
+                    <span className="text-xs text-gray-500 truncate">
+                      {truncateMessage(displayTitle(result), 30)} · {formatTime(result.timestamp)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900 break-words">
+                    {highlightMatches(result.snippet, searchQuery)}
+                  </p>
+                </Card>
+              ))}
+            </div>
+          )
+        ) : isLoading ? (
           <div className="flex items-center justify-center py-8">
             <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
           </div>
         ) : conversations.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">No conversations yet</p>
-            <p className="text-xs">Start a new chat to get started</p>
+            {view === 'trash' ? (
+              <p className="text-sm">Trash is empty</p>
+            ) : isFiltered ? (
+              <>
+                <p className="text-sm">No conversations match these filters</p>
+                <Button variant="link" size="sm" onClick={clearFilters} className="text-xs">
+                  Clear filters
+                </Button>
+              </>
+            ) : view === 'archived' ? (
+              <p className="text-sm">No archived conversations</p>
+            ) : (
+              <>
+                <p className="text-sm">No conversations yet</p>
+                <p className="text-xs">Start a new chat to get started</p>
+              </>
+            )}
           </div>
         ) : (
-          <div className="space-y-2">
-            {conversations.map((conversation) => (
-              <Card
-                key={conversation.conversation_id}
-                className={`p-3 cursor-pointer transition-colors hover:bg-gray-100 group ${
-                  currentConversationId === conversation.conversation_id
-                    ? 'bg-blue-50 border-blue-200'
-                    : 'bg-white'
-                }`}
-                onClick={() => onSelectConversation(conversation.conversation_id)}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <MessageSquare className="w-4 h-4 text-gray-400 flex-shrink-0" />
-                      <span className="text-xs text-gray-500">
-                        {formatTime(conversation.timestamp)}
-                      </span>
-                    </div>
-                    <p className="text-sm text-gray-900 break-words">
-                      {truncateMessage(conversation.first_message)}
-                    </p>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => handleDeleteConversation(conversation.conversation_id, e)}
-                    className="ml-2 p-1 opacity-0 group-hover:opacity-100 hover:bg-red-100 hover:text-red-600"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </Button>
-                </div>
-              </Card>
-            ))}
+          <div className="space-y-3">
+            {view === 'trash' && trashRetentionDays && (
+              <p className="px-1 text-xs text-gray-500">
+                Conversations in the trash are deleted permanently after {trashRetentionDays} days.
+              </p>
+            )}
+            {view !== 'active' ? conversations.map(renderConversation) : groupedConversations.map(({ group, items }) => {
+              const isOpen = !collapsedGroups.includes(group);
+              return (
+                <Collapsible key={group} open={isOpen} onOpenChange={(open) => handleToggleGroup(group, open)}>
+                  <CollapsibleTrigger className="flex items-center w-full px-1 py-1 text-xs font-medium text-gray-500 hover:text-gray-700">
+                    <ChevronDown className={`w-3 h-3 mr-1 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+                    <span>{group}</span>
+                    <span className="ml-auto font-normal">{items.length}</span>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="space-y-2 mt-1">
+                    {items.map(renderConversation)}
+                  </CollapsibleContent>
+                </Collapsible>
+              );
+            })}
+            {nextCursor && (view !== 'active' || isLastGroupOpen) && (
+              <div ref={loadMoreRef} className="flex items-center justify-center py-4">
+                {isLoadingMore && (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+                )}
+              </div>
+            )}
           </div>
         )}
       </ScrollArea>
+
+      <ImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} onImported={refreshConversations} />
+
+      <AlertDialog
+        open={pendingPermanentDelete.length > 0}
+        onOpenChange={(open) => !open && setPendingPermanentDelete([])}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPermanentDelete.length > 1
+                ? `Delete ${pendingPermanentDelete.length} conversations permanently?`
+                : 'Delete conversation permanently?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPermanentDelete.length > 1
+                ? 'These conversations and all of their messages will be removed.'
+                : `"${pendingPermanentDelete[0] ? displayTitle(pendingPermanentDelete[0]) : ''}" and all of its messages will be removed.`}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmPermanentDelete}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
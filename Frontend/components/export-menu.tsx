@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { FileJson, FileText, Printer } from 'lucide-react';
+import ConversationPrintView from '@/components/conversation-print-view';
+import { getConversation, type Conversation } from '@/lib/api';
+import { downloadConversations, type ExportFormat } from '@/lib/export';
+
+interface ExportMenuProps {
+  conversationIds: number[];
+  username: string;
+  // The trigger button
+  children: React.ReactNode;
+}
+
+// Dropdown offering Markdown, PDF (through the print dialog) and JSON exports.
+// Conversations are fetched fresh so the export has every branch and timestamp.
+export default function ExportMenu({ conversationIds, username, children }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [printing, setPrinting] = useState<Conversation[] | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (conversationIds.length === 0) return;
+    setIsExporting(true);
+    try {
+      const conversations = await Promise.all(conversationIds.map((id) => getConversation(id)));
+      if (format === 'pdf') {
+        setPrinting(conversations);
+      } else {
+        downloadConversations(conversations, format, username);
+      }
+    } catch (error) {
+      console.error('Failed to export conversations:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={isExporting || conversationIds.length === 0}>
+          {children}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel>
+            {conversationIds.length > 1 ? `Export ${conversationIds.length} conversations` : 'Export conversation'}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => handleExport('markdown')}>
+            <FileText className="w-4 h-4" />
+            Markdown (.md)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => handleExport('pdf')}>
+            <Printer className="w-4 h-4" />
+            PDF (print)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => handleExport('json')}>
+            <FileJson className="w-4 h-4" />
+            JSON (.json)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {printing && (
+        <ConversationPrintView conversations={printing} username={username} onDone={() => setPrinting(null)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus, Inbox, Pencil, Trash2 } from 'lucide-react';
+import { useConversationStore, buildFolderTree, type FolderNode } from '@/lib/conversation-store';
+
+// Drag data type carrying a JSON array of conversation ids
+export const CONVERSATION_DRAG_TYPE = 'application/x-conversation-ids';
+
+interface FolderTreeProps {
+  // Conversations dropped on a folder, or on "All chats" (null) to take them out of their folder
+  onDropConversations: (conversationIds: number[], folderId: number | null) => void;
+}
+
+export default function FolderTree({ onDropConversations }: FolderTreeProps) {
+  const { folders, folderFilter, setFolderFilter, createFolder, renameFolder, deleteFolder } = useConversationStore();
+  const tree = useMemo(() => buildFolderTree(folders), [folders]);
+  const [isOpen, setIsOpen] = useState(true);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  // Folder under the pointer while conversations are dragged; 'none' is "All chats"
+  const [dropTarget, setDropTarget] = useState<number | 'none' | null>(null);
+  // Where a new folder is being named; 'root' for a top-level folder
+  const [creatingIn, setCreatingIn] = useState<number | 'root' | null>(null);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<FolderNode | null>(null);
+
+  const dropHandlers = (folderId: number | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? 'none');
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const data = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE);
+      if (data) onDropConversations(JSON.parse(data), folderId);
+    },
+  });
+
+  const handleToggleExpanded = (folderId: number) => {
+    setExpandedIds((ids) => ids.includes(folderId) ? ids.filter((id) => id !== folderId) : [...ids, folderId]);
+  };
+
+  const handleStartCreate = (parentId: number | 'root', e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    setIsOpen(true);
+    if (parentId !== 'root' && !expandedIds.includes(parentId)) {
+      setExpandedIds((ids) => [...ids, parentId]);
+    }
+    setRenamingId(null);
+    setCreatingIn(parentId);
+    setDraftName('');
+  };
+
+  const handleSubmitCreate = async () => {
+    if (creatingIn === null) return;
+    const parentId = creatingIn === 'root' ? null : creatingIn;
+    const name = draftName.trim();
+    setCreatingIn(null);
+    if (!name) return;
+
+    try {
+      await createFolder(name, parentId);
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create folder');
+    }
+  };
+
+  const handleStartRename = (folder: FolderNode, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCreatingIn(null);
+    setRenamingId(folder.id);
+    setDraftName(folder.name);
+  };
+
+  const handleSubmitRename = async () => {
+    if (renamingId === null) return;
+    const folder = folders.find((f) => f.id === renamingId);
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!folder || !name || name === folder.name) return;
+
+    try {
+      await renameFolder(folder.id, name);
+    } catch (error) {
+      console.error('Failed to rename folder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rename folder');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    const folder = pendingDelete;
+    setPendingDelete(null);
+    if (!folder) return;
+
+    try {
+      await deleteFolder(folder.id);
+    } catch (error) {
+      console.error('Failed to delete folder:', error);
+      toast.error('Failed to delete folder');
+    }
+  };
+
+  const renderNameInput = (onSubmit: () => void, onCancel: () => void) => (
+    <Input
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          onSubmit();
+        } else if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+      onBlur={onSubmit}
+      placeholder="Folder name"
+      maxLength={100}
+      autoFocus
+      className="h-6 text-xs bg-white"
+    />
+  );
+
+  const renderNewFolderInput = (depth: number) => (
+    <div className="flex items-center py-1 pr-1" style={{ paddingLeft: depth * 12 + 22 }}>
+      {renderNameInput(handleSubmitCreate, () => setCreatingIn(null))}
+    </div>
+  );
+
+  const renderFolder = (folder: FolderNode, depth: number) => {
+    const isExpanded = expandedIds.includes(folder.id);
+    const isSelected = folderFilter === folder.id;
+    return (
+      <div key={folder.id}>
+        <div
+          className={`flex items-center py-1 pr-1 rounded cursor-pointer text-sm group ${
+            dropTarget === folder.id
+              ? 'bg-blue-100 ring-1 ring-blue-300'
+              : isSelected
+                ? 'bg-blue-50 text-blue-700'
+                : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          style={{ paddingLeft: depth * 12 + 4 }}
+          onClick={() => setFolderFilter(isSelected ? null : folder.id)}
+          {...dropHandlers(folder.id)}
+        >
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleToggleExpanded(folder.id);
+            }}
+            className={`w-4 h-4 mr-0.5 flex items-center justify-center text-gray-400 ${
+              folder.children.length > 0 ? '' : 'invisible'
+            }`}
+          >
+            {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+          {isSelected ? (
+            <FolderOpen className="w-4 h-4 mr-1.5 flex-shrink-0" />
+          ) : (
+            <Folder className="w-4 h-4 mr-1.5 flex-shrink-0 text-gray-400" />
+          )}
+          {renamingId === folder.id ? (
+            renderNameInput(handleSubmitRename, () => setRenamingId(null))
+          ) : (
+            <>
+              <span className="flex-1 truncate">{folder.name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleStartCreate(folder.id, e)}
+                title="New subfolder"
+                className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+              >
+                <FolderPlus className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => handleStartRename(folder, e)}
+                title="Rename folder"
+                className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:bg-gray-200"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setPendingDelete(folder);
+                }}
+                title="Delete folder"
+                className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:bg-red-100 hover:text-red-600"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </>
+          )}
+        </div>
+        {isExpanded && (
+          <>
+            {creatingIn === folder.id && renderNewFolderInput(depth + 1)}
+            {folder.children.map((child) => renderFolder(child, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <div className="flex items-center">
+          <CollapsibleTrigger className="flex items-center flex-1 px-1 py-1 text-xs font-medium text-gray-500 hover:text-gray-700">
+            <ChevronDown className={`w-3 h-3 mr-1 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+            <span>Folders</span>
+          </CollapsibleTrigger>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleStartCreate('root')}
+            title="New folder"
+            className="h-6 w-6 p-0 text-gray-500"
+          >
+            <FolderPlus className="w-3 h-3" />
+          </Button>
+        </div>
+        <CollapsibleContent className="mt-1">
+          <div
+            className={`flex items-center py-1 pl-1 pr-1 rounded cursor-pointer text-sm ${
+              dropTarget === 'none'
+                ? 'bg-blue-100 ring-1 ring-blue-300'
+                : folderFilter === null
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            onClick={() => setFolderFilter(null)}
+            {...dropHandlers(null)}
+          >
+            <Inbox className="w-4 h-4 ml-[18px] mr-1.5 flex-shrink-0" />
+            <span className="flex-1 truncate">All chats</span>
+          </div>
+          {creatingIn === 'root' && renderNewFolderInput(0)}
+          {tree.map((folder) => renderFolder(folder, 0))}
+        </CollapsibleContent>
+      </Collapsible>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete folder?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`"${pendingDelete?.name ?? ''}"`}
+              {pendingDelete && pendingDelete.children.length > 0 ? ' and its subfolders' : ''} will be removed.
+              {' '}The conversations in it are kept and moved out of the folder.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete folder
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
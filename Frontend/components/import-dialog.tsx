@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertCircle, MessageSquare } from 'lucide-react';
+import { importConversations, type Conversation } from '@/lib/api';
+import { importedMessageCount, parseConversationArchive } from '@/lib/import';
+import { exportTitle } from '@/lib/export';
+import { formatDate } from '@/lib/utils';
+
+// Archives above this size are refused before they are read
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after at least one conversation was created
+  onImported: () => void;
+}
+
+// Upload a JSON export, check it, preview what will be created, then import it
+export default function ImportDialog({ open, onOpenChange, onImported }: ImportDialogProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setConversations([]);
+    setErrors([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      setErrors(['The file is larger than 20 MB']);
+      return;
+    }
+    const result = parseConversationArchive(await file.text());
+    if (result.ok) {
+      setConversations(result.conversations);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importConversations(conversations);
+      if (result.created.length > 0) {
+        toast(`Imported ${result.created.length} conversation(s)`);
+        onImported();
+      }
+      if (result.failed.length > 0) {
+        setErrors(result.failed.map((failure) =>
+          `${exportTitle(conversations[failure.index])}: ${failure.error}`
+        ));
+        setConversations([]);
+      } else {
+        reset();
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Failed to import conversations:', error);
+      setErrors([error instanceof Error ? error.message : 'Failed to import conversations']);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const messageCount = conversations.reduce((total, conv) => total + importedMessageCount(conv), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription>
+            Choose a JSON file exported from this app. Conversations are added to your account
+            with their original timestamps.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          disabled={isImporting}
+        />
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {errors.map((error, index) => (
+                  <li key={index} className="break-words">{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {conversations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {conversations.length} conversation(s) with {messageCount} message(s) will be created:
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {conversations.map((conversation, index) => (
+                <div key={index} className="flex items-start space-x-2 p-2 border rounded-md">
+                  <MessageSquare className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{exportTitle(conversation)}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(conversation.timestamp)} · {importedMessageCount(conversation)} message(s)
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={conversations.length === 0 || isImporting}>
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
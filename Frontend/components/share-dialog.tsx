@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Ban, Copy, Link } from 'lucide-react';
+import {
+  createShareLink,
+  getShareLinks,
+  updateShareLink,
+  revokeShareLink,
+  shareLinkUrl,
+  type ShareLink,
+} from '@/lib/api';
+import { copyToClipboard, formatDate, parseDate } from '@/lib/utils';
+
+// Select values are strings; 'never' maps to a link without expiry
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+function expiryDays(value: string): number | null {
+  return value === 'never' ? null : Number(value);
+}
+
+function linkStatus(link: ShareLink): 'active' | 'expired' | 'revoked' {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && parseDate(link.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+interface ShareDialogProps {
+  conversationId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Create read-only links to a snapshot of the conversation, and manage existing ones
+export default function ShareDialog({ conversationId, open, onOpenChange }: ShareDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiry, setExpiry] = useState('7');
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getShareLinks(conversationId)
+      .then((result) => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch((error) => console.error('Failed to load share links:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, conversationId]);
+
+  const replaceLink = (updated: ShareLink) => {
+    setLinks((current) => current.map((link) => (link.id === updated.id ? updated : link)));
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await copyToClipboard(shareLinkUrl(link.token));
+      toast('Link copied');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(conversationId, expiryDays(expiry));
+      setLinks((current) => [link, ...current]);
+      await handleCopy(link);
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      toast.error('Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleChangeExpiry = async (link: ShareLink, value: string) => {
+    try {
+      replaceLink(await updateShareLink(link.id, expiryDays(value)));
+    } catch (error) {
+      console.error('Failed to update share link:', error);
+      toast.error('Failed to update share link');
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      replaceLink(await revokeShareLink(link.id));
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      toast.error('Failed to revoke share link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read the conversation as it is now, without logging in.
+            Messages sent later are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-600 whitespace-nowrap">Expires after</span>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating} className="ml-auto flex items-center space-x-2">
+            <Link className="w-4 h-4" />
+            <span>{isCreating ? 'Creating...' : 'Create link'}</span>
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-900">Links</p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">This conversation hasn&apos;t been shared yet.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {links.map((link) => {
+                const status = linkStatus(link);
+                return (
+                  <div key={link.id} className={`p-2 border rounded-md space-y-2 ${status === 'active' ? '' : 'opacity-60'}`}>
+                    <div className="flex items-center space-x-1">
+                      <Input readOnly value={shareLinkUrl(link.token)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                      <Button variant="ghost" size="sm" onClick={() => handleCopy(link)} disabled={status !== 'active'} title="Copy link" className="h-8 w-8 p-0">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>
+                        {formatDate(link.created_at)} · {link.message_count} message(s) ·{' '}
+                        {status === 'revoked'
+                          ? 'Revoked'
+                          : status === 'expired'
+                            ? 'Expired'
+                            : link.expires_at
+                              ? `Expires ${formatDate(link.expires_at)}`
+                              : 'Never expires'}
+                      </span>
+                      {status !== 'revoked' && (
+                        <div className="flex items-center space-x-1">
+                          <Select onValueChange={(value) => handleChangeExpiry(link, value)}>
+                            <SelectTrigger size="sm" className="h-7 text-xs">
+                              <SelectValue placeholder={status === 'expired' ? 'Renew' : 'Change expiry'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {EXPIRY_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(link)}
+                            title="Revoke link"
+                            className="h-7 px-2 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Ban className="w-3 h-3 mr-1" />
+                            Revoke
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
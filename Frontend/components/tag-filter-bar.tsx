@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from 'sonner';
+import { Plus, Tags, X } from 'lucide-react';
+import { useConversationStore } from '@/lib/conversation-store';
+import { TAG_COLORS, type Tag, type TagColor } from '@/lib/api';
+
+// Spelled out in full so Tailwind picks the classes up
+const TAG_COLOR_CLASSES: Record<TagColor, { badge: string; dot: string }> = {
+  gray: { badge: 'bg-gray-100 text-gray-700 border-gray-300', dot: 'bg-gray-400' },
+  red: { badge: 'bg-red-100 text-red-700 border-red-300', dot: 'bg-red-500' },
+  orange: { badge: 'bg-orange-100 text-orange-700 border-orange-300', dot: 'bg-orange-500' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-800 border-yellow-300', dot: 'bg-yellow-400' },
+  green: { badge: 'bg-green-100 text-green-700 border-green-300', dot: 'bg-green-500' },
+  blue: { badge: 'bg-blue-100 text-blue-700 border-blue-300', dot: 'bg-blue-500' },
+  purple: { badge: 'bg-purple-100 text-purple-700 border-purple-300', dot: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-100 text-pink-700 border-pink-300', dot: 'bg-pink-500' },
+};
+
+function TagDot({ color }: { color: TagColor }) {
+  return <span className={`inline-block w-2 h-2 rounded-full ${TAG_COLOR_CLASSES[color].dot}`} />;
+}
+
+interface TagBadgeProps {
+  tag: Tag;
+  // Filled in with the tag's color; otherwise only the dot is colored
+  active?: boolean;
+  onClick?: () => void;
+}
+
+export function TagBadge({ tag, active = true, onClick }: TagBadgeProps) {
+  const className = active ? TAG_COLOR_CLASSES[tag.color].badge : 'bg-white text-gray-600';
+  if (!onClick) {
+    return (
+      <Badge variant="outline" className={className}>
+        <TagDot color={tag.color} />
+        {tag.name}
+      </Badge>
+    );
+  }
+  return (
+    <Badge asChild variant="outline" className={`${className} cursor-pointer hover:border-gray-400`}>
+      <button type="button" onClick={onClick} aria-pressed={active}>
+        <TagDot color={tag.color} />
+        {tag.name}
+      </button>
+    </Badge>
+  );
+}
+
+interface TagPickerProps {
+  // Whether a tag is on; 'indeterminate' when only some of several conversations have it
+  isChecked: (tagId: number) => boolean | 'indeterminate';
+  onToggle: (tagId: number, checked: boolean) => void;
+  children: React.ReactNode;
+}
+
+// Popover for putting tags on conversations; new tags can be created on the spot
+export function TagPicker({ isChecked, onToggle, children }: TagPickerProps) {
+  const { tags, createTag } = useConversationStore();
+  const [newTagName, setNewTagName] = useState('');
+
+  const handleCreate = async () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    try {
+      const tag = await createTag(name, 'gray');
+      setNewTagName('');
+      onToggle(tag.id, true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create tag');
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-2" onClick={(e) => e.stopPropagation()}>
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {tags.length === 0 && <p className="px-1 py-2 text-xs text-gray-500">No tags yet</p>}
+          {tags.map((tag) => {
+            const checked = isChecked(tag.id);
+            return (
+              <label key={tag.id} className="flex items-center space-x-2 px-1 py-1 rounded cursor-pointer hover:bg-gray-100">
+                <Checkbox checked={checked} onCheckedChange={() => onToggle(tag.id, checked !== true)} />
+                <TagBadge tag={tag} />
+              </label>
+            );
+          })}
+        </div>
+        <Input
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="New tag"
+          maxLength={50}
+          className="h-7 mt-2 text-xs"
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Row of tag badges above the list; selecting several shows conversations having all of them
+export default function TagFilterBar() {
+  const { tags, tagFilter, toggleTagFilter, createTag, updateTag, deleteTag } = useConversationStore();
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState<TagColor>('blue');
+
+  const handleCreate = async () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    try {
+      await createTag(name, newTagColor);
+      setNewTagName('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create tag');
+    }
+  };
+
+  // Clicking a tag's dot steps through the palette
+  const handleCycleColor = async (tag: Tag) => {
+    const next = TAG_COLORS[(TAG_COLORS.indexOf(tag.color) + 1) % TAG_COLORS.length];
+    try {
+      await updateTag(tag.id, { color: next });
+    } catch (error) {
+      console.error('Failed to recolor tag:', error);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    try {
+      await deleteTag(tag.id);
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      toast.error('Failed to delete tag');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-3">
+      {tags.map((tag) => (
+        <TagBadge
+          key={tag.id}
+          tag={tag}
+          active={tagFilter.includes(tag.id)}
+          onClick={() => toggleTagFilter(tag.id)}
+        />
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-gray-500" title="Manage tags">
+            <Tags className="w-3 h-3 mr-1" />
+            {tags.length === 0 ? 'Add tags' : 'Tags'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-3">
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {tags.map((tag) => (
+              <div key={tag.id} className="flex items-center space-x-2 group">
+                <button
+                  type="button"
+                  onClick={() => handleCycleColor(tag)}
+                  title="Change color"
+                  className={`w-3 h-3 rounded-full ${TAG_COLOR_CLASSES[tag.color].dot}`}
+                />
+                <span className="flex-1 text-sm truncate">{tag.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(tag)}
+                  title="Delete tag"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className={tags.length > 0 ? 'mt-3 pt-3 border-t border-gray-200' : ''}>
+            <div className="flex items-center space-x-1">
+              <Input
+                value={newTagName}
+                onChange={(e) => setNewTagName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleCreate();
+                  }
+                }}
+                placeholder="New tag"
+                maxLength={50}
+                className="h-7 text-xs"
+              />
+              <Button size="sm" onClick={handleCreate} disabled={!newTagName.trim()} className="h-7 w-7 p-0">
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="flex items-center space-x-1 mt-2">
+              {TAG_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setNewTagColor(color)}
+                  title={color}
+                  className={`w-4 h-4 rounded-full ${TAG_COLOR_CLASSES[color].dot} ${
+                    newTagColor === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MailCheck } from 'lucide-react';
+import { resendVerificationEmail } from '@/lib/api';
+import { isValidEmail } from '@/lib/utils';
+
+interface VerifyEmailNoticeProps {
+  // Prefilled after signup; empty when a login was refused
+  emailaddress: string;
+  onBack: () => void;
+}
+
+// Shown until the account's email address is confirmed, with a way to get a new link
+export default function VerifyEmailNotice({ emailaddress: initialEmail, onBack }: VerifyEmailNoticeProps) {
+  const [emailaddress, setEmailaddress] = useState(initialEmail);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    setError('');
+
+    if (!isValidEmail(emailaddress.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setSending(true);
+    try {
+      await resendVerificationEmail(emailaddress.trim());
+      setMessage('A new verification link is on its way.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center space-y-2">
+        <MailCheck className="w-10 h-10 text-blue-600 mx-auto" />
+        <p className="font-medium text-gray-900">Verify your email</p>
+        <p className="text-sm text-gray-600">
+          {initialEmail
+            ? <>We sent a link to <span className="font-medium text-gray-900">{initialEmail}</span>. </>
+            : "Your email address hasn't been confirmed yet. "}
+          Open the link to activate your account, then log in.
+        </p>
+      </div>
+
+      <form onSubmit={handleResend} className="space-y-2">
+        <Label htmlFor="verify-email">Didn&apos;t get it? Send a new link to</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="verify-email"
+            type="email"
+            placeholder="Enter your email"
+            value={emailaddress}
+            onChange={(e) => setEmailaddress(e.target.value)}
+            required
+          />
+          <Button type="submit" variant="outline" disabled={sending}>
+            {sending ? 'Sending...' : 'Resend'}
+          </Button>
+        </div>
+      </form>
+
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button className="w-full" onClick={onBack}>
+        Back to login
+      </Button>
+    </div>
+  );
+}
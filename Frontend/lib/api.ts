@@ -1,50 +1,118 @@
+import { createEventStreamParser, parseChatStreamEvent } from '@/lib/event-stream';
+import { CSRF_COOKIE, loginPath } from '@/lib/auth';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
 
-// Auth token functions
-export function getAuthToken(): string | null {
-  if (typeof window !== 'undefined') {
-    return localStorage.getItem('access_token');
+// Session tokens live in httpOnly cookies set by the API, out of reach of page
+// scripts. Only the CSRF token is readable; it is echoed back on every change.
+const CSRF_HEADER = 'X-CSRF-Token';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function getCsrfToken(): string | null {
+  if (typeof document === 'undefined') return null;
+  const cookie = document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(`${CSRF_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+function csrfHeaders(method = 'GET'): Record<string, string> {
+  const token = getCsrfToken();
+  return token && !SAFE_METHODS.includes(method.toUpperCase()) ? { [CSRF_HEADER]: token } : {};
+}
+
+// The session could not be renewed; the user has to log in again
+export class SessionExpiredError extends Error {
+  constructor(message = 'Unauthorized') {
+    super(message);
+    this.name = 'SessionExpiredError';
   }
-  return null;
 }
 
-export function setAuthToken(token: string): void {
-  if (typeof window !== 'undefined') {
-    localStorage.setItem('access_token', token);
+// Shared by every caller that hits a 401 at the same time, so the refresh token
+// (which only works once) is spent by a single request
+let refreshPromise: Promise<boolean> | null = null;
+// Other tabs share the cookies, so they take turns through this lock
+const REFRESH_LOCK = 'session-refresh';
+
+async function requestTokenRefresh(): Promise<boolean> {
+  const csrfToken = getCsrfToken();
+  const refresh = async () => {
+    // Every refresh replaces the CSRF token: if it changed while this tab waited,
+    // another tab has just renewed the session and the old refresh token is spent
+    if (getCsrfToken() !== csrfToken) return true;
+    try {
+      const response = await fetch(`${API_BASE_URL}/refresh`, {
+        method: 'POST',
+        headers: csrfHeaders('POST'),
+        credentials: 'include',
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Failed to refresh session:', error);
+      return false;
+    }
+  };
+  if (typeof navigator === 'undefined' || !navigator.locks) return refresh();
+  return navigator.locks.request(REFRESH_LOCK, refresh);
+}
+
+// Renew the session cookies; resolves false when the session is over
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
   }
+  return refreshPromise;
 }
 
-export function removeAuthToken(): void {
+function expireSession(): never {
+  // Redirect to login page, coming back here afterwards
   if (typeof window !== 'undefined') {
-    localStorage.removeItem('access_token');
+    window.location.href = loginPath(window.location.pathname + window.location.search);
   }
+  throw new SessionExpiredError();
 }
 
-// API call wrapper with auth
-async function apiCall(endpoint: string, options: RequestInit = {}): Promise<Response> {
-  const token = getAuthToken();
-  const headers = {
-    'Content-Type': 'application/json',
-    ...(token && { 'Authorization': `Bearer ${token}` }),
-    ...options.headers,
-  };
-
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+// fetch with the session cookies. On a 401 the session is renewed and the request
+// sent once more; if that fails too, the user is sent to login.
+async function authorizedFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, {
     ...options,
-    headers,
+    headers: {
+      ...options.headers,
+      // Read on each attempt: a refresh replaces the CSRF token
+      ...csrfHeaders(options.method),
+    },
+    credentials: 'include',
   });
 
-  // Handle 401 Unauthorized
-  if (response.status === 401) {
-    removeAuthToken();
-    // Redirect to login page
-    if (typeof window !== 'undefined') {
-      window.location.href = '/login';
-    }
-    throw new Error('Unauthorized');
+  const response = await send();
+  if (response.status !== 401) {
+    return response;
+  }
+
+  if (!(await refreshSession())) {
+    expireSession();
   }
 
-  return response;
+  const retried = await send();
+  if (retried.status === 401) {
+    expireSession();
+  }
+  return retried;
+}
+
+// API call wrapper with auth
+async function apiCall(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  return authorizedFetch(`${API_BASE_URL}${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
 }
 
 // Types
@@ -52,26 +120,106 @@ export interface User {
   user_id: number;
   username: string;
   emailaddress: string;
+  email_verified?: boolean;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reason: string | null;
+  timestamp: string;
 }
 
 export interface Message {
+  id: string;
+  parent_id: string | null;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  stopped?: boolean;
+  // Ids of all versions of this message (edits/regenerations), on the active path only
+  sibling_ids?: string[];
+  // Set on assistant replies the user has rated
+  feedback?: MessageFeedback;
 }
 
 export interface Conversation {
   conversation_id: number;
   user_id: number;
   timestamp: string;
+  title?: string | null;
+  // The active branch, root first
   messages: Message[];
+  // Every message of every branch
+  message_tree?: Message[];
+  active_message_id?: string | null;
   first_message?: string;
 }
 
+export interface ConversationSummary {
+  conversation_id: number;
+  user_id: number;
+  timestamp: string;
+  title: string | null;
+  // Time of the newest message; the list is ordered by it
+  last_message_at: string;
+  pinned: boolean;
+  archived: boolean;
+  // Set while the conversation is in the trash
+  deleted_at: string | null;
+  folder_id: number | null;
+  tag_ids: number[];
+  first_message: string;
+}
+
+export interface Folder {
+  id: number;
+  // Top-level folders have no parent
+  parent_id: number | null;
+  name: string;
+  created_at: string;
+}
+
+export const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink'] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export interface Tag {
+  id: number;
+  name: string;
+  color: TagColor;
+}
+
+// Narrows a conversation list to one folder and/or conversations having all of the tags
+export interface ConversationFilter {
+  folderId?: number | null;
+  tagIds?: number[];
+}
+
+export interface ConversationPage {
+  conversations: ConversationSummary[];
+  // Pass back to fetch the next page; null on the last page
+  next_cursor: string | null;
+  // Days a deleted conversation stays in the trash before it is purged
+  trash_retention_days: number;
+}
+
+export type ConversationListView = 'active' | 'archived' | 'trash';
+
+export interface SearchResult {
+  conversation_id: number;
+  message_id: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  // Text around the first match, possibly cut with "..."
+  snippet: string;
+  title: string | null;
+  first_message: string;
+}
+
 export interface LoginResponse {
   message: string;
-  access_token: string;
-  token_type: string;
   user: User;
 }
 
@@ -80,6 +228,14 @@ export interface RegisterResponse {
   user: User;
 }
 
+// Login was refused because the account's email address isn't verified yet
+export class EmailNotVerifiedError extends Error {
+  constructor(message = 'Please verify your email address before logging in') {
+    super(message);
+    this.name = 'EmailNotVerifiedError';
+  }
+}
+
 // Auth API functions
 export async function loginUser(username: string, password: string): Promise<LoginResponse> {
   const response = await fetch(`${API_BASE_URL}/login`, {
@@ -91,10 +247,15 @@ export async function loginUser(username: string, password: string): Promise<Log
       username: username,
       password: password,
     }),
+    // Lets the browser store the session cookies
+    credentials: 'include',
   });
 
   if (!response.ok) {
     const error = await response.json();
+    if (response.status === 403) {
+      throw new EmailNotVerifiedError(error.detail);
+    }
     throw new Error(error.detail || 'Login failed');
   }
 
@@ -122,6 +283,77 @@ export async function registerUser(userData: {
   return response.json();
 }
 
+export async function verifyEmail(token: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}/verify-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to verify email address');
+  }
+
+  return response.json();
+}
+
+// The answer doesn't reveal whether the address has an unverified account
+export async function resendVerificationEmail(emailaddress: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}/verify-email/resend`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ emailaddress }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to resend verification email');
+  }
+
+  return response.json();
+}
+
+// Emails a one-time link for choosing a new password. The answer doesn't reveal
+// whether the address has an account.
+export async function requestPasswordReset(emailaddress: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}/password-reset`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ emailaddress }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to request password reset');
+  }
+
+  return response.json();
+}
+
+export async function confirmPasswordReset(token: string, password: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}/password-reset/confirm`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token, password }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to reset password');
+  }
+
+  return response.json();
+}
+
 export async function getCurrentUser(): Promise<{ user: User }> {
   const response = await apiCall('/me');
 
@@ -141,18 +373,27 @@ export async function logoutUser(): Promise<{ message: string }> {
     throw new Error('Failed to logout');
   }
 
-  removeAuthToken();
   return response.json();
 }
 
 // Conversation API functions
-export async function getConversations(): Promise<Array<{
-  conversation_id: number;
-  user_id: number;
-  timestamp: string;
-  first_message: string;
-}>> {
-  const response = await apiCall('/conversations');
+// Pinned conversations come first; archived and deleted ones only show in their own views
+export async function getConversations(
+  cursor?: string | null,
+  limit?: number,
+  view: ConversationListView = 'active',
+  filter: ConversationFilter = {}
+): Promise<ConversationPage> {
+  const params = new URLSearchParams();
+  if (cursor) params.set('cursor', cursor);
+  if (limit) params.set('limit', String(limit));
+  if (view === 'archived') params.set('archived', 'true');
+  if (view === 'trash') params.set('deleted', 'true');
+  if (filter.folderId != null) params.set('folder_id', String(filter.folderId));
+  filter.tagIds?.forEach((tagId) => params.append('tag_id', String(tagId)));
+  const query = params.toString();
+
+  const response = await apiCall(`/conversations${query ? `?${query}` : ''}`);
 
   if (!response.ok) {
     throw new Error('Failed to fetch conversations');
@@ -161,6 +402,18 @@ export async function getConversations(): Promise<Array<{
   return response.json();
 }
 
+export async function searchConversations(query: string, signal?: AbortSignal): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q: query });
+  const response = await apiCall(`/conversations/search?${params}`, { signal });
+
+  if (!response.ok) {
+    throw new Error('Failed to search conversations');
+  }
+
+  const data = await response.json();
+  return data.results;
+}
+
 export async function createConversation(firstMessage: string): Promise<Conversation> {
   const response = await apiCall('/conversations', {
     method: 'POST',
@@ -187,7 +440,165 @@ export async function getConversation(conversationId: number): Promise<Conversat
   return response.json();
 }
 
-export async function deleteConversation(conversationId: number): Promise<{ message: string }> {
+// Make the branch containing `messageId` the active one
+export async function setActiveMessage(conversationId: number, messageId: string): Promise<Conversation> {
+  const response = await apiCall(`/conversations/${conversationId}/active`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      message_id: messageId,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to switch branch');
+  }
+
+  return response.json();
+}
+
+// Copy the history up to and including a message into a new conversation
+export async function forkConversation(conversationId: number, messageId: string): Promise<Conversation> {
+  const response = await apiCall(`/conversations/${conversationId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message_id: messageId,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fork conversation');
+  }
+
+  return response.json();
+}
+
+// Rate an assistant reply; a null rating withdraws the vote
+export async function submitFeedback(
+  conversationId: number,
+  messageId: string,
+  rating: FeedbackRating | null,
+  reason?: string
+): Promise<{ message_id: string; feedback: MessageFeedback | null }> {
+  const response = await apiCall(`/conversations/${conversationId}/messages/${messageId}/feedback`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      rating,
+      reason: reason || null,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to submit feedback');
+  }
+
+  return response.json();
+}
+
+export type ConversationUpdate = Partial<
+  Pick<ConversationSummary, 'title' | 'pinned' | 'archived' | 'folder_id' | 'tag_ids'>
+>;
+
+// Change conversation fields; a blank title goes back to an automatic one,
+// a null folder_id unfiles the conversation and tag_ids replaces all of its tags
+export async function updateConversation(
+  conversationId: number,
+  updates: ConversationUpdate
+): Promise<ConversationUpdate & { conversation_id: number }> {
+  const response = await apiCall(`/conversations/${conversationId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update conversation');
+  }
+
+  return response.json();
+}
+
+export async function pinConversation(conversationId: number, pinned: boolean) {
+  return updateConversation(conversationId, { pinned });
+}
+
+// Archiving also unpins the conversation
+export async function archiveConversation(conversationId: number, archived: boolean) {
+  return updateConversation(conversationId, { archived });
+}
+
+export type BatchAction =
+  | 'delete'
+  | 'restore'
+  | 'delete_permanently'
+  | 'archive'
+  | 'unarchive'
+  | 'pin'
+  | 'unpin'
+  | 'move'
+  | 'tag'
+  | 'untag';
+
+// Target of the "move" action (null unfiles) and the tag of "tag" and "untag"
+export interface BatchOptions {
+  folderId?: number | null;
+  tagId?: number;
+}
+
+export interface BatchResult {
+  action: BatchAction;
+  succeeded: number[];
+  failed: Array<{ conversation_id: number; error: string }>;
+}
+
+// Apply one action to many conversations in a single request. Conversations the
+// action can't apply to are reported in `failed` rather than failing the request.
+export async function batchUpdateConversations(
+  conversationIds: number[],
+  action: BatchAction,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const response = await apiCall('/conversations/batch', {
+    method: 'POST',
+    body: JSON.stringify({
+      conversation_ids: conversationIds,
+      action,
+      folder_id: options.folderId ?? null,
+      tag_id: options.tagId ?? null,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update conversations');
+  }
+
+  return response.json();
+}
+
+export interface ImportResult {
+  // `index` is the conversation's position in the uploaded archive
+  created: Array<{ index: number; conversation_id: number }>;
+  failed: Array<{ index: number; error: string }>;
+}
+
+// Create conversations from an export archive; message ids are replaced but
+// timestamps are kept
+export async function importConversations(conversations: Conversation[]): Promise<ImportResult> {
+  const response = await apiCall('/conversations/import', {
+    method: 'POST',
+    body: JSON.stringify({
+      conversations,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.detail === 'string' ? error.detail : 'Failed to import conversations');
+  }
+
+  return response.json();
+}
+
+// Moves the conversation to the trash; it is purged after the retention period
+export async function deleteConversation(conversationId: number): Promise<{ message: string; retention_days: number }> {
   const response = await apiCall(`/conversations/${conversationId}`, {
     method: 'DELETE',
   });
@@ -199,32 +610,350 @@ export async function deleteConversation(conversationId: number): Promise<{ mess
   return response.json();
 }
 
-// Message API functions
-export async function sendMessage(conversationId: number, content: string): Promise<ReadableStream<Uint8Array> | null> {
-  const token = getAuthToken();
-  if (!token) {
-    throw new Error('No auth token available');
+export async function restoreDeletedConversation(conversationId: number): Promise<{ message: string }> {
+  const response = await apiCall(`/conversations/${conversationId}/restore`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to restore conversation');
+  }
+
+  return response.json();
+}
+
+// Only works for conversations already in the trash
+export async function deleteConversationPermanently(conversationId: number): Promise<{ message: string }> {
+  const response = await apiCall(`/conversations/${conversationId}?permanent=true`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete conversation');
+  }
+
+  return response.json();
+}
+
+// Share link API functions
+export interface ShareLink {
+  id: number;
+  // Secret part of the public URL
+  token: string;
+  conversation_id: number;
+  title: string | null;
+  message_count: number;
+  created_at: string;
+  // null for links that never expire
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+// What a share link shows: the active branch as it was when the link was made
+export interface SharedConversation {
+  title: string | null;
+  messages: Message[];
+  shared_at: string;
+  expires_at: string | null;
+}
+
+export function shareLinkUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export async function createShareLink(conversationId: number, expiresInDays: number | null): Promise<ShareLink> {
+  const response = await apiCall(`/conversations/${conversationId}/shares`, {
+    method: 'POST',
+    body: JSON.stringify({
+      expires_in_days: expiresInDays,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to create share link');
+  }
+
+  return response.json();
+}
+
+export async function getShareLinks(conversationId?: number): Promise<ShareLink[]> {
+  const query = conversationId !== undefined ? `?conversation_id=${conversationId}` : '';
+  const response = await apiCall(`/shares${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch share links');
+  }
+
+  const data = await response.json();
+  return data.shares;
+}
+
+// The new expiry counts from now; null makes the link permanent
+export async function updateShareLink(shareId: number, expiresInDays: number | null): Promise<ShareLink> {
+  const response = await apiCall(`/shares/${shareId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      expires_in_days: expiresInDays,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update share link');
+  }
+
+  return response.json();
+}
+
+export async function revokeShareLink(shareId: number): Promise<ShareLink> {
+  const response = await apiCall(`/shares/${shareId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to revoke share link');
+  }
+
+  return response.json();
+}
+
+// Public, so a plain fetch: a visitor without a session must not be sent to login
+export async function getSharedConversation(token: string): Promise<SharedConversation> {
+  const response = await fetch(`${API_BASE_URL}/shared/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to load shared conversation');
+  }
+
+  return response.json();
+}
+
+// Folder API functions
+// Folders come back flat; nesting is given by parent_id
+export async function getFolders(): Promise<Folder[]> {
+  const response = await apiCall('/folders');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch folders');
+  }
+
+  const data = await response.json();
+  return data.folders;
+}
+
+export async function createFolder(name: string, parentId: number | null = null): Promise<Folder> {
+  const response = await apiCall('/folders', {
+    method: 'POST',
+    body: JSON.stringify({
+      name,
+      parent_id: parentId,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to create folder');
+  }
+
+  return response.json();
+}
+
+export async function updateFolder(
+  folderId: number,
+  updates: Partial<Pick<Folder, 'name' | 'parent_id'>>
+): Promise<Folder> {
+  const response = await apiCall(`/folders/${folderId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to update folder');
+  }
+
+  return response.json();
+}
+
+// Subfolders are deleted too; the conversations in them are kept, unfiled
+export async function deleteFolder(folderId: number): Promise<{ message: string }> {
+  const response = await apiCall(`/folders/${folderId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete folder');
+  }
+
+  return response.json();
+}
+
+// Tag API functions
+export async function getTags(): Promise<Tag[]> {
+  const response = await apiCall('/tags');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch tags');
   }
 
-  const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages/stream`, {
+  const data = await response.json();
+  return data.tags;
+}
+
+export async function createTag(name: string, color: TagColor): Promise<Tag> {
+  const response = await apiCall('/tags', {
     method: 'POST',
+    body: JSON.stringify({
+      name,
+      color,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to create tag');
+  }
+
+  return response.json();
+}
+
+export async function updateTag(tagId: number, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<Tag> {
+  const response = await apiCall(`/tags/${tagId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to update tag');
+  }
+
+  return response.json();
+}
+
+// Also removes the tag from every conversation
+export async function deleteTag(tagId: number): Promise<{ message: string }> {
+  const response = await apiCall(`/tags/${tagId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete tag');
+  }
+
+  return response.json();
+}
+
+// Message API functions
+
+// Open one of the streaming reply endpoints
+async function openChatStream(
+  endpoint: string,
+  method: string,
+  body: object,
+  signal: AbortSignal | undefined,
+  failureMessage: string
+): Promise<ReadableStream<Uint8Array> | null> {
+  const response = await authorizedFetch(`${API_BASE_URL}${endpoint}`, {
+    method,
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
     },
-    body: JSON.stringify({
-      content: content,
-    }),
+    body: JSON.stringify(body),
+    signal,
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.detail || 'Failed to send message');
+    throw new Error(error.detail || failureMessage);
+  }
+
+  return response.body;
+}
+
+export async function sendMessage(
+  conversationId: number,
+  content: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  return openChatStream(
+    `/conversations/${conversationId}/messages/stream`,
+    'POST',
+    { content },
+    signal,
+    'Failed to send message'
+  );
+}
+
+// Add an edited version of a user message as a new branch and stream a reply to it
+export async function editMessage(
+  conversationId: number,
+  messageId: string,
+  content: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  return openChatStream(
+    `/conversations/${conversationId}/messages/${messageId}/stream`,
+    'PUT',
+    { content },
+    signal,
+    'Failed to edit message'
+  );
+}
+
+// Stream another reply to the same user turn; the old reply is kept as a branch
+export async function regenerateMessage(
+  conversationId: number,
+  messageId: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  return openChatStream(
+    `/conversations/${conversationId}/messages/${messageId}/regenerate/stream`,
+    'POST',
+    {},
+    signal,
+    'Failed to regenerate reply'
+  );
+}
+
+// Reconnect to an in-flight reply. Returns null when the server no longer has
+// the stream (finished long ago or server restarted).
+export async function resumeStream(
+  conversationId: number,
+  lastEventId: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  // The access token may have expired while the reply was streaming; this renews it
+  const response = await authorizedFetch(`${API_BASE_URL}/conversations/${conversationId}/messages/stream`, {
+    headers: {
+      'Last-Event-ID': lastEventId,
+    },
+    signal,
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.detail || 'Failed to resume stream');
   }
 
   return response.body;
 }
 
+export async function cancelStream(conversationId: number, streamId: string): Promise<{ message: string }> {
+  const response = await apiCall(`/conversations/${conversationId}/messages/stream/${streamId}/cancel`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to cancel stream');
+  }
+
+  return response.json();
+}
+
 export async function sendMessageNonStream(conversationId: number, content: string): Promise<Conversation> {
   const response = await apiCall(`/conversations/${conversationId}/messages`, {
     method: 'POST',
@@ -241,72 +970,175 @@ export async function sendMessageNonStream(conversationId: number, content: stri
   return response.json();
 }
 
-// Chat streaming function with proper event parsing
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// The connection dropped mid-reply and the stream could not be resumed
+export class StreamInterruptedError extends Error {
+  constructor(message = 'Connection lost while receiving the reply') {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+export interface StreamChatOptions {
+  signal?: AbortSignal;
+  // Opens the reply stream; defaults to sending `message` as a new user turn
+  open?: (signal?: AbortSignal) => Promise<ReadableStream<Uint8Array> | null>;
+  // Called with the server's stream id once known, e.g. to cancel generation
+  onStreamStart?: (streamId: string) => void;
+  // Called with the stored user message, carrying its server id
+  onUserMessage?: (message: Message) => void;
+  // Called with the (still empty) reply message, carrying its server id
+  onAssistantStart?: (message: Message) => void;
+  // Called when the server names the conversation after its first exchange
+  onTitle?: (title: string) => void;
+}
+
+const MAX_RESUME_ATTEMPTS = 3;
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// Chat streaming function with proper event parsing.
+// If the connection drops, it reconnects with Last-Event-ID and continues where
+// it stopped; when that is impossible it rejects with StreamInterruptedError.
+// Aborting `signal` rejects with an AbortError, and a session that can't be renewed
+// with SessionExpiredError. None of these reach onError.
 export async function streamChat(
   conversationId: number, 
   message: string, 
   onChunk: (chunk: string) => void,
-  onComplete?: (fullMessage: string) => void,
-  onError?: (error: string) => void
+  onComplete?: (fullMessage: string, message?: Message) => void,
+  onError?: (error: string) => void,
+  options: StreamChatOptions = {}
 ): Promise<void> {
-  try {
-    const stream = await sendMessage(conversationId, message);
-    if (!stream) {
-      throw new Error('No stream received');
-    }
+  const {
+    signal,
+    onStreamStart,
+    onUserMessage,
+    onAssistantStart,
+    onTitle,
+    open = (signal) => sendMessage(conversationId, message, signal),
+  } = options;
+  let fullMessage = '';
+  let lastEventId = '';
+  let streamId: string | null = null;
+  let retryDelay = 1000;
 
+  // Read one connection; resolves true once the server has finished the stream
+  const consume = async (stream: ReadableStream<Uint8Array>): Promise<boolean> => {
     const reader = stream.getReader();
     const decoder = new TextDecoder();
-    let fullMessage = '';
+    const parser = createEventStreamParser();
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-            if (data === '') continue;
-            
-            try {
-              const parsed = JSON.parse(data);
-              
-              switch (parsed.type) {
-                case 'assistant_chunk':
-                  if (parsed.content) {
-                    fullMessage += parsed.content;
-                    onChunk(parsed.content);
-                  }
-                  break;
-                case 'assistant_complete':
-                  if (onComplete) {
-                    onComplete(fullMessage);
-                  }
-                  break;
-                case 'done':
-                  return;
-                case 'error':
-                  if (onError) {
-                    onError(parsed.error);
-                  }
-                  throw new Error(parsed.error);
-                  break;
-              }
-            } catch (e) {
-              // Ignore JSON parsing errors for incomplete chunks
-              console.log('Failed to parse chunk:', data);
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          return false;
+        }
+        const { done, value } = result;
+        const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const rawEvents = parser.feed(text);
+        retryDelay = parser.retryDelay() ?? retryDelay;
+
+        for (const rawEvent of rawEvents) {
+          if (rawEvent.id) {
+            lastEventId = rawEvent.id;
+            if (!streamId) {
+              streamId = rawEvent.id.split(':')[0];
+              onStreamStart?.(streamId);
             }
           }
+
+          const event = parseChatStreamEvent(rawEvent);
+          if (!event) {
+            console.warn('Ignoring unrecognised stream event:', rawEvent);
+            continue;
+          }
+
+          switch (event.type) {
+            case 'user_message':
+              onUserMessage?.(event.message);
+              break;
+            case 'assistant_start':
+              onAssistantStart?.(event.message);
+              break;
+            case 'assistant_chunk':
+              if (event.content) {
+                fullMessage += event.content;
+                onChunk(event.content);
+              }
+              break;
+            case 'assistant_complete':
+              if (onComplete) {
+                onComplete(fullMessage, event.message);
+              }
+              break;
+            case 'conversation_title':
+              if (event.title) onTitle?.(event.title);
+              break;
+            case 'done':
+              return true;
+            case 'error':
+              throw new Error(event.error);
+          }
         }
+
+        if (done) return false;
       }
     } finally {
       reader.releaseLock();
     }
+  };
+
+  try {
+    let stream = await open(signal);
+    if (!stream) {
+      throw new Error('No stream received');
+    }
+
+    let attempts = 0;
+    while (!(await consume(stream))) {
+      let resumed: ReadableStream<Uint8Array> | null = null;
+      while (!resumed) {
+        if (!lastEventId || attempts >= MAX_RESUME_ATTEMPTS) {
+          throw new StreamInterruptedError();
+        }
+        attempts++;
+
+        console.warn(`Stream interrupted, resuming after ${lastEventId}`);
+        await delay(retryDelay, signal);
+        try {
+          resumed = await resumeStream(conversationId, lastEventId, signal);
+        } catch (error) {
+          if (isAbortError(error) || error instanceof SessionExpiredError) throw error;
+          console.warn('Resume attempt failed:', error);
+          continue;
+        }
+        if (!resumed) {
+          throw new StreamInterruptedError();
+        }
+      }
+      stream = resumed;
+    }
   } catch (error) {
+    if (isAbortError(error) || error instanceof StreamInterruptedError || error instanceof SessionExpiredError) {
+      throw error;
+    }
     console.error('Streaming error:', error);
     if (onError) {
       onError(error instanceof Error ? error.message : 'Unknown streaming error');
@@ -0,0 +1,30 @@
+// Session cookies set by the API. The tokens are httpOnly; the CSRF cookie is readable
+// so it can be echoed in a header. The session cookie is set at login, kept as long as
+// the refresh token and cleared at logout, so it tells that a session can be renewed.
+export const ACCESS_COOKIE = 'access_token';
+export const CSRF_COOKIE = 'csrf_token';
+export const SESSION_COOKIE = 'logged_in';
+
+export const LOGIN_PATH = '/login';
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Pages under app/(public) that are reachable without a session. Everything else,
+// including pages added later, is protected by middleware.ts.
+const PUBLIC_PATHS = [LOGIN_PATH, '/share', '/reset-password', '/verify'];
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+// Only paths on this site are followed, so the parameter can't send users elsewhere
+export function safeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return '/';
+  }
+  return value;
+}
+
+export function loginPath(returnTo?: string): string {
+  const target = safeReturnTo(returnTo);
+  return target === '/' ? LOGIN_PATH : `${LOGIN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(target)}`;
+}
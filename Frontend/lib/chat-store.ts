@@ -1,27 +1,159 @@
-import { create } from 'zustand';
-import { 
-  sendMessage as apiSendMessage, 
-  createConversation, 
+import { create, type StoreApi } from 'zustand';
+import {
+  sendMessage as apiSendMessage,
+  createConversation,
   getConversation,
+  editMessage as apiEditMessage,
+  regenerateMessage as apiRegenerateMessage,
+  setActiveMessage,
+  submitFeedback,
   streamChat,
+  cancelStream,
+  isAbortError,
+  StreamInterruptedError,
+  SessionExpiredError,
+  type FeedbackRating,
+  type MessageFeedback,
   type Message as ApiMessage,
   type Conversation as ApiConversation
 } from '@/lib/api';
+import { useConversationStore } from '@/lib/conversation-store';
+import { generateId } from '@/lib/utils';
 
 export interface Message {
-  id: number;
+  id: string;
+  parent_id: string | null;
   role: 'user' | 'assistant';
   content: string;
   created_at: string;
+  stopped?: boolean;
+  feedback?: MessageFeedback;
+}
+
+type SetChatState = StoreApi<ChatState>['setState'];
+type GetChatState = StoreApi<ChatState>['getState'];
+
+// Messages created locally keep this id until the server confirms them
+function localId(): string {
+  return `local-${generateId()}`;
+}
+
+// Convert an API message to store message format
+function toStoreMessage(msg: ApiMessage): Message {
+  return {
+    id: msg.id,
+    parent_id: msg.parent_id,
+    role: msg.role,
+    content: msg.content,
+    created_at: msg.timestamp,
+    stopped: msg.stopped,
+    feedback: msg.feedback,
+  };
+}
+
+// All versions of a message, i.e. the messages sharing its parent, oldest first
+export function getSiblings(messageTree: Message[], message: Message): Message[] {
+  return messageTree.filter((msg) => msg.parent_id === message.parent_id);
+}
+
+// Follow the most recent reply below `messageId` down to a leaf
+function getLatestLeaf(messageTree: Message[], messageId: string): string {
+  let leafId = messageId;
+  let children = messageTree.filter((msg) => msg.parent_id === leafId);
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = messageTree.filter((msg) => msg.parent_id === leafId);
+  }
+  return leafId;
+}
+
+function getActivePath(messageTree: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messageTree.map((msg) => [msg.id, msg]));
+  const path: Message[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+// State update for a tree and its active leaf; `messages` is always the active path
+function treeState(messageTree: Message[], activeLeafId: string | null) {
+  return {
+    messageTree,
+    activeLeafId,
+    messages: getActivePath(messageTree, activeLeafId),
+  };
+}
+
+function treeFromConversation(conversation: ApiConversation) {
+  const apiMessages = conversation.message_tree?.length ? conversation.message_tree : conversation.messages;
+  const messageTree = apiMessages.map(toStoreMessage);
+  const activeLeafId = conversation.active_message_id
+    ?? conversation.messages[conversation.messages.length - 1]?.id
+    ?? null;
+  return treeState(messageTree, activeLeafId);
+}
+
+// Swap an optimistic message for the server's copy, re-pointing its replies
+function reconcileMessage(messageTree: Message[], localMessageId: string, saved: ApiMessage): Message[] {
+  return messageTree.map((msg) => {
+    if (msg.id === localMessageId) {
+      return { ...msg, id: saved.id, created_at: saved.timestamp };
+    }
+    return msg.parent_id === localMessageId ? { ...msg, parent_id: saved.id } : msg;
+  });
+}
+
+// Append a message below the active leaf and make it the new leaf
+function appendToTree(state: ChatState, message: Message) {
+  return treeState([...state.messageTree, message], message.id);
+}
+
+// The part of a reply received before streaming ended early
+function partialReply(content: string, parentId: string | null, id?: string | null): Message {
+  return {
+    id: id ?? localId(),
+    parent_id: parentId,
+    role: 'assistant',
+    content,
+    created_at: new Date().toISOString(),
+    stopped: true,
+  };
+}
+
+// Reload the tree once the server has saved the exchange
+async function syncWithServer(set: SetChatState, get: GetChatState, conversationId: number): Promise<void> {
+  try {
+    const conversation = await getConversation(conversationId);
+    if (get().currentConversationId === conversationId && !get().isStreaming) {
+      set(treeFromConversation(conversation));
+    }
+  } catch (error) {
+    console.error('Error syncing conversation:', error);
+  }
 }
 
 export interface ChatState {
+  // Every message of every branch, in creation order
+  messageTree: Message[];
+  activeLeafId: string | null;
+  // The active branch, root first
   messages: Message[];
   isLoading: boolean;
   isStreaming: boolean;
   currentMessage: string;
   streamingMessage: string;
+  // Server id of the reply being streamed
+  streamingMessageId: string | null;
   currentConversationId: number | null;
+  // Message to bring into view once the conversation is shown, e.g. a search hit
+  focusMessageId: string | null;
+  abortController: AbortController | null;
+  streamId: string | null;
+  // Stop was pressed before the server sent the stream id
+  stopRequested: boolean;
   setMessages: (messages: Message[]) => void;
   addMessage: (message: Message) => void;
   setLoading: (loading: boolean) => void;
@@ -33,66 +165,199 @@ export interface ChatState {
   clearMessages: () => void;
   clearChat: () => void;
   setCurrentConversation: (conversationId: number | null) => void;
-  loadConversation: (conversationId: number) => Promise<void>;
+  loadConversation: (conversationId: number, focusMessageId?: string) => Promise<void>;
+  focusMessage: (messageId: string) => void;
+  clearFocusMessage: () => void;
   sendMessage: (message: string, onConversationCreated?: (conversationId: number) => void) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  regenerate: () => Promise<void>;
+  switchBranch: (messageId: string, direction: -1 | 1) => Promise<void>;
+  rateMessage: (messageId: string, rating: FeedbackRating | null, reason?: string) => Promise<void>;
+  stopGeneration: () => void;
+}
+
+// Stream an assistant reply into the store, keeping partial text if the user
+// stops it and reconciling with the server if the connection can't be resumed.
+// Expects isLoading/isStreaming/abortController to be set already.
+async function streamReply(
+  set: SetChatState,
+  get: GetChatState,
+  conversationId: number,
+  message: string,
+  abortController: AbortController,
+  open?: (signal?: AbortSignal) => Promise<ReadableStream<Uint8Array> | null>
+): Promise<void> {
+  set({ streamingMessage: '', streamingMessageId: null });
+
+  try {
+    await streamChat(
+      conversationId,
+      message,
+      // onChunk
+      (chunk: string) => {
+        set((state) => ({
+          streamingMessage: state.streamingMessage + chunk
+        }));
+      },
+      // onComplete
+      (fullMessage: string, saved?: ApiMessage) => {
+        set((state) => {
+          const finalAssistantMessage: Message = {
+            id: saved?.id ?? localId(),
+            parent_id: state.activeLeafId,
+            role: 'assistant',
+            content: fullMessage,
+            created_at: saved?.timestamp ?? new Date().toISOString(),
+          };
+
+          return {
+            ...appendToTree(state, finalAssistantMessage),
+            streamingMessage: '',
+            isStreaming: false,
+            isLoading: false,
+            abortController: null,
+            streamId: null,
+            streamingMessageId: null
+          };
+        });
+      },
+      // onError
+      (error: string) => {
+        console.error('Streaming error:', error);
+        set({ isLoading: false, isStreaming: false });
+        throw new Error(error);
+      },
+      {
+        signal: abortController.signal,
+        open,
+        onStreamStart: (streamId) => {
+          set({ streamId });
+          if (get().stopRequested) get().stopGeneration();
+        },
+        onUserMessage: (saved) => {
+          useConversationStore.getState().touchConversation(conversationId, saved.timestamp);
+          set((state) => {
+            const leafId = state.activeLeafId;
+            if (!leafId || leafId === saved.id) return {};
+            return treeState(reconcileMessage(state.messageTree, leafId, saved), saved.id);
+          });
+        },
+        onAssistantStart: (saved) => set({ streamingMessageId: saved.id }),
+        onTitle: (title) => useConversationStore.getState().updateConversation(conversationId, { title }),
+      }
+    );
+  } catch (error) {
+    if (isAbortError(error) || error instanceof SessionExpiredError) {
+      // Keep whatever was streamed so far, marked as stopped
+      set((state) => ({
+        ...(state.streamingMessage
+          ? appendToTree(state, partialReply(state.streamingMessage, state.activeLeafId, state.streamingMessageId))
+          : {}),
+        streamingMessage: '',
+        streamingMessageId: null,
+        isLoading: false,
+        isStreaming: false,
+        abortController: null,
+        streamId: null
+      }));
+      return;
+    }
+    if (error instanceof StreamInterruptedError) {
+      // Resuming failed; take whatever the server saved as the source of truth
+      try {
+        const conversation = await getConversation(conversationId);
+        set((state) => {
+          let next = treeFromConversation(conversation);
+          const last = next.messages[next.messages.length - 1];
+          if (last?.role !== 'assistant' && state.streamingMessage) {
+            const partial = partialReply(state.streamingMessage, next.activeLeafId);
+            next = treeState([...next.messageTree, partial], partial.id);
+          }
+          return {
+            ...next,
+            streamingMessage: '',
+            streamingMessageId: null,
+            isLoading: false,
+            isStreaming: false,
+            abortController: null,
+            streamId: null
+          };
+        });
+        return;
+      } catch (reloadError) {
+        console.error('Error reloading interrupted conversation:', reloadError);
+        set((state) => ({
+          ...(state.streamingMessage
+            ? appendToTree(state, partialReply(state.streamingMessage, state.activeLeafId, state.streamingMessageId))
+            : {}),
+          streamingMessage: '',
+          streamingMessageId: null
+        }));
+      }
+    }
+    set({ isLoading: false, isStreaming: false, abortController: null, streamId: null });
+    throw error;
+  }
 }
 
 export const useChatStore = create<ChatState>()((set, get) => ({
+  messageTree: [],
+  activeLeafId: null,
   messages: [],
   isLoading: false,
   isStreaming: false,
   currentMessage: '',
   streamingMessage: '',
+  streamingMessageId: null,
   currentConversationId: null,
-  
-  setMessages: (messages) => set({ messages }),
-  
-  addMessage: (message) => set((state) => ({
-    messages: [...state.messages, message]
-  })),
-  
+  focusMessageId: null,
+  abortController: null,
+  streamId: null,
+  stopRequested: false,
+
+  // Replace the tree with a single linear branch
+  setMessages: (messages) => set(treeState(messages, messages[messages.length - 1]?.id ?? null)),
+
+  addMessage: (message) => set((state) => appendToTree(state, message)),
+
   setLoading: (loading) => set({ isLoading: loading }),
-  
+
   setStreaming: (streaming) => set({ isStreaming: streaming }),
-  
+
   setCurrentMessage: (message) => set({ currentMessage: message }),
-  
+
   setStreamingMessage: (message) => set({ streamingMessage: message }),
-  
+
   appendToStreamingMessage: (chunk) => set((state) => ({
     streamingMessage: state.streamingMessage + chunk
   })),
-  
+
   clearStreamingMessage: () => set({ streamingMessage: '' }),
-  
-  clearMessages: () => set({ messages: [], streamingMessage: '', currentMessage: '' }),
-  
-  clearChat: () => set({ messages: [], streamingMessage: '', currentMessage: '', currentConversationId: null }),
-  
+
+  clearMessages: () => set({ ...treeState([], null), streamingMessage: '', currentMessage: '' }),
+
+  clearChat: () => set({ ...treeState([], null), streamingMessage: '', currentMessage: '', currentConversationId: null, focusMessageId: null }),
+
   setCurrentConversation: (conversationId) => set({ currentConversationId: conversationId }),
 
-  loadConversation: async (conversationId: number) => {
-    set({ isLoading: true });
+  loadConversation: async (conversationId: number, focusMessageId?: string) => {
+    set({ isLoading: true, ...(focusMessageId && { focusMessageId }) });
     try {
-      const userData = typeof window !== 'undefined' ? localStorage.getItem('user') : null;
-      if (!userData) {
-        throw new Error('User not authenticated');
-      }
-      
       const conversation = await getConversation(conversationId);
-      
-      // Convert API messages to store message format
-      const messages: Message[] = conversation.messages.map((msg, index) => ({
-        id: Date.now() + index, // Generate unique IDs
-        role: msg.role,
-        content: msg.content,
-        created_at: msg.timestamp,
-      }));
-      
-      set({ 
-        messages,
+      const loaded = treeFromConversation(conversation);
+
+      // Show the branch holding the focused message, which may not be the active one
+      const focus = get().focusMessageId;
+      const focusOnOtherBranch = focus
+        && loaded.messageTree.some((msg) => msg.id === focus)
+        && !loaded.messages.some((msg) => msg.id === focus);
+
+      set({
+        ...(focusOnOtherBranch
+          ? treeState(loaded.messageTree, getLatestLeaf(loaded.messageTree, focus))
+          : loaded),
         currentConversationId: conversationId,
-        isLoading: false 
+        isLoading: false
       });
     } catch (error) {
       console.error('Error loading conversation:', error);
@@ -100,19 +365,17 @@ export const useChatStore = create<ChatState>()((set, get) => ({
     }
   },
 
+  focusMessage: (messageId) => set({ focusMessageId: messageId }),
+
+  clearFocusMessage: () => set({ focusMessageId: null }),
+
   sendMessage: async (message: string, onConversationCreated?: (conversationId: number) => void) => {
     const { currentConversationId } = get();
-    set({ isLoading: true, isStreaming: true });
+    const abortController = new AbortController();
+    set({ isLoading: true, isStreaming: true, abortController, streamId: null, stopRequested: false });
 
+    let conversationId = currentConversationId;
     try {
-      const userData = typeof window !== 'undefined' ? localStorage.getItem('user') : null;
-      if (!userData) {
-        throw new Error('User not authenticated');
-      }
-
-      const user = JSON.parse(userData);
-      let conversationId = currentConversationId;
-
       // Create new conversation if none exists
       if (!conversationId) {
         const newConversation = await createConversation(message);
@@ -122,56 +385,166 @@ export const useChatStore = create<ChatState>()((set, get) => ({
       }
 
       // Add user message immediately
-      const userMessage: Message = {
-        id: Date.now(),
+      set((state) => appendToTree(state, {
+        id: localId(),
+        parent_id: state.activeLeafId,
         role: 'user',
         content: message,
         created_at: new Date().toISOString(),
-      };
-      
-      set((state) => ({
-        messages: [...state.messages, userMessage]
       }));
+    } catch (error) {
+      console.error('Error sending message:', error);
+      set({ isLoading: false, isStreaming: false, abortController: null });
+      throw error;
+    }
 
-      // Start streaming response
-      set({ streamingMessage: '' });
-      
-      await streamChat(
-        conversationId,
-        message,
-        // onChunk
-        (chunk: string) => {
-          set((state) => ({
-            streamingMessage: state.streamingMessage + chunk
-          }));
-        },
-        // onComplete
-        (fullMessage: string) => {
-          const finalAssistantMessage: Message = {
-            id: Date.now() + 1,
-            role: 'assistant',
-            content: fullMessage,
-            created_at: new Date().toISOString(),
-          };
+    // Start streaming response
+    try {
+      await streamReply(set, get, conversationId, message, abortController);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      throw error;
+    }
+  },
 
-          set((state) => ({
-            messages: [...state.messages, finalAssistantMessage],
-            streamingMessage: '',
-            isStreaming: false,
-            isLoading: false
-          }));
-        },
-        // onError
-        (error: string) => {
-          console.error('Streaming error:', error);
-          set({ isLoading: false, isStreaming: false });
-          throw new Error(error);
-        }
+  editMessage: async (messageId: string, content: string) => {
+    const { currentConversationId, messageTree, isStreaming } = get();
+    const original = messageTree.find((msg) => msg.id === messageId);
+    if (!currentConversationId || isStreaming || !original || original.role !== 'user') {
+      return;
+    }
+
+    // The edit becomes a sibling of the original; the old branch is kept
+    const abortController = new AbortController();
+    const editedMessage: Message = {
+      id: localId(),
+      parent_id: original.parent_id,
+      role: 'user',
+      content,
+      created_at: new Date().toISOString(),
+    };
+    set({
+      ...treeState([...messageTree, editedMessage], editedMessage.id),
+      isLoading: true,
+      isStreaming: true,
+      abortController,
+      streamId: null,
+      stopRequested: false
+    });
+
+    try {
+      await streamReply(
+        set,
+        get,
+        currentConversationId,
+        content,
+        abortController,
+        (signal) => apiEditMessage(currentConversationId, messageId, content, signal)
       );
     } catch (error) {
-      console.error('Error sending message:', error);
-      set({ isLoading: false, isStreaming: false });
+      console.error('Error editing message:', error);
       throw error;
     }
   },
+
+  regenerate: async () => {
+    const { currentConversationId, messageTree, messages, isStreaming } = get();
+    const reply = messages[messages.length - 1];
+    const userMessage = messageTree.find((msg) => msg.id === reply?.parent_id);
+    if (!currentConversationId || isStreaming || reply?.role !== 'assistant' || !userMessage) {
+      return;
+    }
+
+    // Step back to the user turn; the new reply becomes a sibling of the old one
+    const abortController = new AbortController();
+    set({
+      ...treeState(messageTree, userMessage.id),
+      isLoading: true,
+      isStreaming: true,
+      abortController,
+      streamId: null,
+      stopRequested: false
+    });
+
+    try {
+      await streamReply(
+        set,
+        get,
+        currentConversationId,
+        userMessage.content,
+        abortController,
+        (signal) => apiRegenerateMessage(currentConversationId, reply.id, signal)
+      );
+    } catch (error) {
+      console.error('Error regenerating reply:', error);
+      throw error;
+    }
+  },
+
+  switchBranch: async (messageId: string, direction: -1 | 1) => {
+    const { currentConversationId, messageTree, isStreaming } = get();
+    const message = messageTree.find((msg) => msg.id === messageId);
+    if (!message || isStreaming) return;
+
+    const siblings = getSiblings(messageTree, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (!target) return;
+
+    set(treeState(messageTree, getLatestLeaf(messageTree, target.id)));
+
+    // Remember the choice so the conversation reopens on this branch
+    if (currentConversationId && !target.id.startsWith('local-')) {
+      try {
+        await setActiveMessage(currentConversationId, target.id);
+      } catch (error) {
+        console.error('Error switching branch:', error);
+      }
+    }
+  },
+
+  rateMessage: async (messageId: string, rating: FeedbackRating | null, reason?: string) => {
+    const { currentConversationId, messageTree } = get();
+    const message = messageTree.find((msg) => msg.id === messageId);
+    if (!currentConversationId || !message || messageId.startsWith('local-')) return;
+
+    const setFeedback = (feedback: MessageFeedback | undefined) => set((state) => treeState(
+      state.messageTree.map((msg) => (msg.id === messageId ? { ...msg, feedback } : msg)),
+      state.activeLeafId
+    ));
+
+    // Show the vote right away and put the old one back if saving fails
+    const previous = message.feedback;
+    setFeedback(rating
+      ? { rating, reason: reason || null, timestamp: new Date().toISOString() }
+      : undefined);
+
+    try {
+      const result = await submitFeedback(currentConversationId, messageId, rating, reason);
+      setFeedback(result.feedback ?? undefined);
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+      setFeedback(previous);
+      throw error;
+    }
+  },
+
+  stopGeneration: () => {
+    const { abortController, currentConversationId, streamId } = get();
+    if (currentConversationId && abortController && !streamId) {
+      // The reply keeps generating after we disconnect, and it can only be
+      // cancelled by id, so stay connected until the id arrives
+      set({ stopRequested: true });
+      return;
+    }
+    abortController?.abort();
+    if (!currentConversationId || !streamId) return;
+
+    // Tell the server to stop generating (the reply is no longer tied to our
+    // connection), then pick up what it saved
+    cancelStream(currentConversationId, streamId)
+      .catch((error) => {
+        console.error('Error cancelling stream:', error);
+      })
+      .then(() => syncWithServer(set, get, currentConversationId));
+  },
 }));
@@ -1,24 +1,161 @@
 import { create } from 'zustand';
-import { getConversations, deleteConversation as apiDeleteConversation } from '@/lib/api';
+import {
+  getConversations,
+  deleteConversation as apiDeleteConversation,
+  restoreDeletedConversation as apiRestoreDeletedConversation,
+  deleteConversationPermanently as apiDeleteConversationPermanently,
+  updateConversation as apiUpdateConversation,
+  pinConversation as apiPinConversation,
+  archiveConversation as apiArchiveConversation,
+  batchUpdateConversations,
+  getFolders,
+  createFolder as apiCreateFolder,
+  updateFolder as apiUpdateFolder,
+  deleteFolder as apiDeleteFolder,
+  getTags,
+  createTag as apiCreateTag,
+  updateTag as apiUpdateTag,
+  deleteTag as apiDeleteTag,
+  type BatchAction,
+  type BatchOptions,
+  type BatchResult,
+  type ConversationListView,
+  type Folder,
+  type Tag,
+  type TagColor
+} from '@/lib/api';
+import { parseDate } from '@/lib/utils';
 
 export interface Conversation {
   conversation_id: number;
   user_id: number;
   timestamp: string;
+  title: string | null;
+  last_message_at: string;
+  pinned: boolean;
+  archived: boolean;
+  deleted_at: string | null;
+  folder_id: number | null;
+  tag_ids: number[];
   first_message: string;
 }
 
+export interface FolderNode extends Folder {
+  children: FolderNode[];
+}
+
+const PAGE_SIZE = 30;
+// Numbers each list refresh; only the latest one may update the list
+let refreshSeq = 0;
+
+// Nest the flat folder list under its parents, keeping the server's name order
+export function buildFolderTree(folders: Folder[]): FolderNode[] {
+  const nodes = new Map<number, FolderNode>(folders.map(folder => [folder.id, { ...folder, children: [] }]));
+  const roots: FolderNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+}
+
+// A folder's id plus the ids of every folder below it
+function folderWithDescendants(folders: Folder[], folderId: number): Set<number> {
+  const ids = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parent_id !== null && ids.has(folder.parent_id) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Whether a conversation belongs in the list under the current folder and tag filters
+function matchesFilter(conversation: Conversation, folderFilter: number | null, tagFilter: number[]): boolean {
+  return (folderFilter === null || conversation.folder_id === folderFilter)
+    && tagFilter.every(tagId => conversation.tag_ids.includes(tagId));
+}
+
+// How a batch action changes a listed conversation; null means it leaves the current view
+function applyBatchAction(conversation: Conversation, action: BatchAction, options: BatchOptions): Conversation | null {
+  switch (action) {
+    case 'pin':
+      return { ...conversation, pinned: true };
+    case 'unpin':
+      return { ...conversation, pinned: false };
+    case 'move':
+      return { ...conversation, folder_id: options.folderId ?? null };
+    case 'tag':
+      return conversation.tag_ids.includes(options.tagId!)
+        ? conversation
+        : { ...conversation, tag_ids: [...conversation.tag_ids, options.tagId!] };
+    case 'untag':
+      return { ...conversation, tag_ids: conversation.tag_ids.filter(tagId => tagId !== options.tagId) };
+    default:
+      return null;
+  }
+}
+
+// Same order as the server: pinned first, then by latest activity
+function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned)
+    || parseDate(b.last_message_at).getTime() - parseDate(a.last_message_at).getTime()
+    || b.conversation_id - a.conversation_id
+  );
+}
+
 export interface ConversationState {
   conversations: Conversation[];
   activeConversationId: number | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
+  // Cursor of the next page, null once everything is loaded
+  nextCursor: string | null;
+  // Which conversations the list shows
+  view: ConversationListView;
+  trashRetentionDays: number | null;
+  folders: Folder[];
+  tags: Tag[];
+  // Only list conversations in this folder, and having all of these tags
+  folderFilter: number | null;
+  tagFilter: number[];
   setConversations: (conversations: Conversation[]) => void;
   addConversation: (conversation: Conversation) => void;
   updateConversation: (id: number, updates: Partial<Conversation>) => void;
+  renameConversation: (id: number, title: string) => Promise<void>;
+  touchConversation: (id: number, lastMessageAt: string) => void;
+  pinConversation: (id: number, pinned: boolean) => Promise<void>;
+  archiveConversation: (id: number) => Promise<void>;
+  restoreConversation: (id: number) => Promise<void>;
+  setView: (view: ConversationListView) => Promise<void>;
   deleteConversation: (id: number) => Promise<void>;
+  undoDelete: (conversations: Conversation[]) => Promise<void>;
+  batchAction: (ids: number[], action: BatchAction, options?: BatchOptions) => Promise<BatchResult>;
+  moveToFolder: (ids: number[], folderId: number | null) => Promise<BatchResult>;
+  setConversationTags: (id: number, tagIds: number[]) => Promise<void>;
+  loadFolders: () => Promise<void>;
+  createFolder: (name: string, parentId?: number | null) => Promise<Folder>;
+  renameFolder: (id: number, name: string) => Promise<void>;
+  deleteFolder: (id: number) => Promise<void>;
+  loadTags: () => Promise<void>;
+  createTag: (name: string, color: TagColor) => Promise<Tag>;
+  updateTag: (id: number, updates: Partial<Pick<Tag, 'name' | 'color'>>) => Promise<void>;
+  deleteTag: (id: number) => Promise<void>;
+  setFolderFilter: (folderId: number | null) => Promise<void>;
+  toggleTagFilter: (tagId: number) => Promise<void>;
+  clearFilters: () => Promise<void>;
+  restoreFromTrash: (id: number) => Promise<void>;
+  deletePermanently: (id: number) => Promise<void>;
   setActiveConversation: (id: number | null) => void;
   setLoading: (loading: boolean) => void;
   refreshConversations: () => Promise<void>;
+  loadMore: () => Promise<void>;
   getActiveConversation: () => Conversation | null;
 }
 
@@ -26,6 +163,14 @@ export const useConversationStore = create<ConversationState>()((set, get) => ({
   conversations: [],
   activeConversationId: null,
   isLoading: false,
+  isLoadingMore: false,
+  nextCursor: null,
+  view: 'active',
+  trashRetentionDays: null,
+  folders: [],
+  tags: [],
+  folderFilter: null,
+  tagFilter: [],
   
   setConversations: (conversations) => set({ conversations }),
   
@@ -39,6 +184,73 @@ export const useConversationStore = create<ConversationState>()((set, get) => ({
     )
   })),
   
+  renameConversation: async (id, title) => {
+    const previous = get().conversations.find(conv => conv.conversation_id === id);
+    get().updateConversation(id, { title: title.trim() || null });
+    try {
+      const result = await apiUpdateConversation(id, { title });
+      get().updateConversation(id, { title: result.title ?? null });
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      if (previous) get().updateConversation(id, { title: previous.title });
+      throw error;
+    }
+  },
+
+  // Record new activity, moving the conversation up the list
+  touchConversation: (id, lastMessageAt) => set((state) => ({
+    conversations: sortConversations(state.conversations.map(conv =>
+      conv.conversation_id === id ? { ...conv, last_message_at: lastMessageAt } : conv
+    ))
+  })),
+
+  pinConversation: async (id, pinned) => {
+    const previous = get().conversations;
+    set({
+      conversations: sortConversations(previous.map(conv =>
+        conv.conversation_id === id ? { ...conv, pinned } : conv
+      ))
+    });
+    try {
+      await apiPinConversation(id, pinned);
+    } catch (error) {
+      console.error('Error pinning conversation:', error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
+
+  // Archiving and restoring both move the conversation out of the current view
+  archiveConversation: async (id) => {
+    const previous = get().conversations;
+    set({ conversations: previous.filter(conv => conv.conversation_id !== id) });
+    try {
+      await apiArchiveConversation(id, true);
+    } catch (error) {
+      console.error('Error archiving conversation:', error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
+
+  restoreConversation: async (id) => {
+    const previous = get().conversations;
+    set({ conversations: previous.filter(conv => conv.conversation_id !== id) });
+    try {
+      await apiArchiveConversation(id, false);
+    } catch (error) {
+      console.error('Error restoring conversation:', error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
+
+  // Folder and tag filters only apply to the view they were set in
+  setView: async (view) => {
+    set({ view, conversations: [], nextCursor: null, folderFilter: null, tagFilter: [] });
+    await get().refreshConversations();
+  },
+
   deleteConversation: async (id) => {
     try {
       await apiDeleteConversation(id);
@@ -51,19 +263,258 @@ export const useConversationStore = create<ConversationState>()((set, get) => ({
       throw error;
     }
   },
+
+  // Take just-deleted conversations back out of the trash (the toast's Undo)
+  undoDelete: async (conversations) => {
+    let restoredIds = conversations.map(conv => conv.conversation_id);
+    if (conversations.length === 1) {
+      await apiRestoreDeletedConversation(restoredIds[0]);
+    } else {
+      restoredIds = (await batchUpdateConversations(restoredIds, 'restore')).succeeded;
+    }
+
+    set((state) => {
+      const listed = new Set(state.conversations.map(conv => conv.conversation_id));
+      const restored = conversations
+        .filter(conv => restoredIds.includes(conv.conversation_id) && !listed.has(conv.conversation_id))
+        .map(conv => ({ ...conv, pinned: false, deleted_at: null }))
+        .filter(conv => state.view === (conv.archived ? 'archived' : 'active'))
+        .filter(conv => matchesFilter(conv, state.folderFilter, state.tagFilter));
+      return restored.length > 0
+        ? { conversations: sortConversations([...state.conversations, ...restored]) }
+        : {};
+    });
+  },
+
+  // Update the list right away, then put back whatever the server couldn't change
+  batchAction: async (ids, action, options = {}) => {
+    const { conversations: previous, folderFilter, tagFilter } = get();
+    const selected = new Set(ids);
+    set({
+      conversations: sortConversations(previous.flatMap((conv) => {
+        if (!selected.has(conv.conversation_id)) return [conv];
+        const updated = applyBatchAction(conv, action, options);
+        return updated && matchesFilter(updated, folderFilter, tagFilter) ? [updated] : [];
+      }))
+    });
+
+    try {
+      const result = await batchUpdateConversations(ids, action, options);
+      if (result.failed.length > 0) {
+        const failed = new Set(result.failed.map(f => f.conversation_id));
+        set((state) => ({
+          conversations: sortConversations([
+            ...state.conversations.filter(conv => !failed.has(conv.conversation_id)),
+            ...previous.filter(conv => failed.has(conv.conversation_id))
+          ])
+        }));
+      }
+      return result;
+    } catch (error) {
+      console.error(`Error running batch ${action}:`, error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
+
+  moveToFolder: (ids, folderId) => get().batchAction(ids, 'move', { folderId }),
+
+  setConversationTags: async (id, tagIds) => {
+    const previous = get().conversations.find(conv => conv.conversation_id === id);
+    get().updateConversation(id, { tag_ids: tagIds });
+    try {
+      await apiUpdateConversation(id, { tag_ids: tagIds });
+      const { folderFilter, tagFilter } = get();
+      set((state) => ({
+        conversations: state.conversations.filter(conv => matchesFilter(conv, folderFilter, tagFilter))
+      }));
+    } catch (error) {
+      console.error('Error tagging conversation:', error);
+      if (previous) get().updateConversation(id, { tag_ids: previous.tag_ids });
+      throw error;
+    }
+  },
+
+  loadFolders: async () => {
+    try {
+      set({ folders: await getFolders() });
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  },
+
+  createFolder: async (name, parentId = null) => {
+    const folder = await apiCreateFolder(name, parentId);
+    set((state) => ({
+      folders: [...state.folders, folder].sort((a, b) => a.name.localeCompare(b.name))
+    }));
+    return folder;
+  },
+
+  renameFolder: async (id, name) => {
+    const folder = await apiUpdateFolder(id, { name });
+    set((state) => ({
+      folders: state.folders
+        .map(f => f.id === id ? folder : f)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }));
+  },
+
+  // Deleting a folder also deletes its subfolders; their conversations become unfiled
+  deleteFolder: async (id) => {
+    await apiDeleteFolder(id);
+    const { folders, folderFilter } = get();
+    const removed = folderWithDescendants(folders, id);
+    set((state) => ({
+      folders: state.folders.filter(folder => !removed.has(folder.id)),
+      conversations: state.conversations.map(conv =>
+        conv.folder_id !== null && removed.has(conv.folder_id) ? { ...conv, folder_id: null } : conv
+      )
+    }));
+    if (folderFilter !== null && removed.has(folderFilter)) {
+      await get().setFolderFilter(null);
+    }
+  },
+
+  loadTags: async () => {
+    try {
+      set({ tags: await getTags() });
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  },
+
+  createTag: async (name, color) => {
+    const tag = await apiCreateTag(name, color);
+    set((state) => ({
+      tags: [...state.tags, tag].sort((a, b) => a.name.localeCompare(b.name))
+    }));
+    return tag;
+  },
+
+  updateTag: async (id, updates) => {
+    const tag = await apiUpdateTag(id, updates);
+    set((state) => ({
+      tags: state.tags
+        .map(t => t.id === id ? tag : t)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }));
+  },
+
+  deleteTag: async (id) => {
+    await apiDeleteTag(id);
+    const filtered = get().tagFilter.includes(id);
+    set((state) => ({
+      tags: state.tags.filter(tag => tag.id !== id),
+      tagFilter: state.tagFilter.filter(tagId => tagId !== id),
+      conversations: state.conversations.map(conv =>
+        conv.tag_ids.includes(id) ? { ...conv, tag_ids: conv.tag_ids.filter(tagId => tagId !== id) } : conv
+      )
+    }));
+    if (filtered) await get().refreshConversations();
+  },
+
+  setFolderFilter: async (folderId) => {
+    set({ folderFilter: folderId, conversations: [], nextCursor: null });
+    await get().refreshConversations();
+  },
+
+  toggleTagFilter: async (tagId) => {
+    set((state) => ({
+      tagFilter: state.tagFilter.includes(tagId)
+        ? state.tagFilter.filter(id => id !== tagId)
+        : [...state.tagFilter, tagId],
+      conversations: [],
+      nextCursor: null
+    }));
+    await get().refreshConversations();
+  },
+
+  clearFilters: async () => {
+    set({ folderFilter: null, tagFilter: [], conversations: [], nextCursor: null });
+    await get().refreshConversations();
+  },
+
+  restoreFromTrash: async (id) => {
+    const previous = get().conversations;
+    set({ conversations: previous.filter(conv => conv.conversation_id !== id) });
+    try {
+      await apiRestoreDeletedConversation(id);
+    } catch (error) {
+      console.error('Error restoring conversation:', error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
+
+  deletePermanently: async (id) => {
+    const previous = get().conversations;
+    set({ conversations: previous.filter(conv => conv.conversation_id !== id) });
+    try {
+      await apiDeleteConversationPermanently(id);
+    } catch (error) {
+      console.error('Error deleting conversation permanently:', error);
+      set({ conversations: previous });
+      throw error;
+    }
+  },
   
   setActiveConversation: (id) => set({ activeConversationId: id }),
   
   setLoading: (loading) => set({ isLoading: loading }),
   
   refreshConversations: async () => {
+    const { view, folderFilter, tagFilter } = get();
+    const seq = ++refreshSeq;
     try {
       set({ isLoading: true });
-      const conversations = await getConversations();
-      set({ conversations, isLoading: false });
+      const page = await getConversations(null, PAGE_SIZE, view, { folderId: folderFilter, tagIds: tagFilter });
+      // Drop the page if a newer refresh started while it loaded, e.g. after the
+      // user switched views or filters; that one clears isLoading
+      if (seq !== refreshSeq) return;
+      set({
+        conversations: page.conversations,
+        nextCursor: page.next_cursor,
+        trashRetentionDays: page.trash_retention_days,
+        isLoading: false
+      });
     } catch (error) {
       console.error('Error refreshing conversations:', error);
-      set({ isLoading: false });
+      if (seq === refreshSeq) set({ isLoading: false });
+    }
+  },
+
+  loadMore: async () => {
+    const { nextCursor, isLoading, isLoadingMore, view, folderFilter, tagFilter } = get();
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    try {
+      set({ isLoadingMore: true });
+      const page = await getConversations(nextCursor, PAGE_SIZE, view, { folderId: folderFilter, tagIds: tagFilter });
+      // Drop the page if the user switched views or filters, or the list was reloaded, while it loaded
+      const current = get();
+      if (
+        current.view !== view || current.folderFilter !== folderFilter || current.tagFilter !== tagFilter
+        || current.nextCursor !== nextCursor
+      ) {
+        set({ isLoadingMore: false });
+        return;
+      }
+      set((state) => {
+        // Skip anything already listed, e.g. after a refresh raced this request
+        const known = new Set(state.conversations.map(conv => conv.conversation_id));
+        return {
+          conversations: [
+            ...state.conversations,
+            ...page.conversations.filter(conv => !known.has(conv.conversation_id))
+          ],
+          nextCursor: page.next_cursor,
+          isLoadingMore: false
+        };
+      });
+    } catch (error) {
+      console.error('Error loading more conversations:', error);
+      set({ isLoadingMore: false });
     }
   },
   
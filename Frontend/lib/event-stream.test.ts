@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createEventStreamParser, parseChatStreamEvent, type ServerSentEvent } from '@/lib/event-stream';
+
+// Feed the bytes of `stream` in two reads split at `offset`, decoding them the way
+// streamChat does, so multi-byte characters can be cut in half too
+function parseSplitAt(stream: string, offset: number) {
+  const bytes = new TextEncoder().encode(stream);
+  const decoder = new TextDecoder();
+  const parser = createEventStreamParser();
+  const events: ServerSentEvent[] = [
+    ...parser.feed(decoder.decode(bytes.slice(0, offset), { stream: true })),
+    ...parser.feed(decoder.decode(bytes.slice(offset), { stream: true })),
+    ...parser.feed(decoder.decode()),
+  ];
+  return { events, retryDelay: parser.retryDelay() };
+}
+
+// Every split of the stream must parse the same as the whole stream
+function parseEverySplit(stream: string) {
+  const whole = parseSplitAt(stream, 0);
+  const length = new TextEncoder().encode(stream).length;
+  for (let offset = 1; offset <= length; offset++) {
+    expect(parseSplitAt(stream, offset), `split at byte ${offset}`).toEqual(whole);
+  }
+  return whole;
+}
+
+describe('createEventStreamParser', () => {
+  it('parses events with LF line endings', () => {
+    const { events } = parseEverySplit(
+      'event: assistant_chunk\nid: s1:0\ndata: {"content":"Hi"}\n\n' +
+      'data: {"type":"done"}\n\n'
+    );
+    expect(events).toEqual([
+      { event: 'assistant_chunk', data: '{"content":"Hi"}', id: 's1:0' },
+      { event: 'message', data: '{"type":"done"}', id: 's1:0' },
+    ]);
+  });
+
+  it('accepts CRLF and bare CR line endings', () => {
+    const expected = [
+      { event: 'message', data: 'first', id: '1' },
+      { event: 'message', data: 'second', id: '2' },
+    ];
+    expect(parseEverySplit('id: 1\r\ndata: first\r\n\r\nid: 2\r\ndata: second\r\n\r\n').events).toEqual(expected);
+    expect(parseEverySplit('id: 1\rdata: first\r\rid: 2\rdata: second\r\r').events).toEqual(expected);
+    expect(parseEverySplit('id: 1\r\ndata: first\n\rid: 2\rdata: second\n\n').events).toEqual(expected);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    const { events } = parseEverySplit('data: line one\ndata:line two\ndata\ndata:  indented\n\n');
+    expect(events).toEqual([
+      { event: 'message', data: 'line one\nline two\n\n indented', id: '' },
+    ]);
+  });
+
+  it('keeps multi-byte characters whole', () => {
+    const { events } = parseEverySplit('data: {"content":"Fièvre 🤒 38°C"}\n\n');
+    expect(events.map((event) => event.data)).toEqual(['{"content":"Fièvre 🤒 38°C"}']);
+  });
+
+  it('ignores comments and unknown fields', () => {
+    const { events } = parseEverySplit(': keep-alive\n\nfoo: bar\n:comment\ndata: payload\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'payload', id: '' }]);
+  });
+
+  it('does not dispatch events without data', () => {
+    const { events } = parseEverySplit('event: ping\n\nid: 7\n\ndata: after\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'after', id: '7' }]);
+  });
+
+  it('keeps the last event id until it changes', () => {
+    const { events } = parseEverySplit(
+      'id: s1:0\ndata: a\n\ndata: b\n\nid: s1:2\ndata: c\n\nid: bad\0id\ndata: d\n\nid\ndata: e\n\n'
+    );
+    expect(events.map((event) => [event.data, event.id])).toEqual([
+      ['a', 's1:0'],
+      ['b', 's1:0'],
+      ['c', 's1:2'],
+      ['d', 's1:2'],
+      ['e', ''],
+    ]);
+  });
+
+  it('tracks retry as stream state, not per event', () => {
+    const { events, retryDelay } = parseEverySplit('id: s1:0\nretry: 2500\ndata: a\n\ndata: b\n\n');
+    expect(retryDelay).toBe(2500);
+    expect(events).toEqual([
+      { event: 'message', data: 'a', id: 's1:0' },
+      { event: 'message', data: 'b', id: 's1:0' },
+    ]);
+  });
+
+  it('ignores retry values that are not whole numbers', () => {
+    expect(parseEverySplit('retry: 1000\n\nretry: soon\nretry: -5\nretry: 1.5\ndata: a\n\n').retryDelay).toBe(1000);
+    expect(parseEverySplit('data: a\n\n').retryDelay).toBeUndefined();
+  });
+
+  it('holds back an unterminated event until its blank line arrives', () => {
+    const parser = createEventStreamParser();
+    expect(parser.feed('data: partial\n')).toEqual([]);
+    expect(parser.feed('\n')).toEqual([{ event: 'message', data: 'partial', id: '' }]);
+  });
+
+  it('drops a partial event on reset but keeps the retry delay', () => {
+    const parser = createEventStreamParser();
+    parser.feed('retry: 3000\n\ndata: cut off');
+    parser.reset();
+    expect(parser.feed('\n\ndata: next\n\n')).toEqual([{ event: 'message', data: 'next', id: '' }]);
+    expect(parser.retryDelay()).toBe(3000);
+  });
+});
+
+describe('parseChatStreamEvent', () => {
+  const raw = (event: string, data: string): ServerSentEvent => ({ event, data, id: '' });
+
+  it('reads the type from the event name or the payload', () => {
+    expect(parseChatStreamEvent(raw('assistant_chunk', '{"content":"Hi"}'))).toEqual({ type: 'assistant_chunk', content: 'Hi' });
+    expect(parseChatStreamEvent(raw('message', '{"type":"done"}'))).toEqual({ type: 'done' });
+  });
+
+  it('returns null for malformed or unknown events', () => {
+    expect(parseChatStreamEvent(raw('message', 'not json'))).toBeNull();
+    expect(parseChatStreamEvent(raw('message', '{"type":"mystery"}'))).toBeNull();
+  });
+});
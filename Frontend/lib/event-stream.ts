@@ -0,0 +1,150 @@
+import type { Message } from '@/lib/api';
+
+// A single dispatched event, as described by the WHATWG event-stream format
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id: string;
+}
+
+// Events emitted by the backend's /messages/stream endpoints
+export type ChatStreamEvent =
+  | { type: 'user_message'; message: Message }
+  | { type: 'assistant_start'; message: Message }
+  | { type: 'assistant_chunk'; content: string }
+  | { type: 'assistant_complete'; message: Message }
+  | { type: 'conversation_title'; title: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+export interface EventStreamParser {
+  feed: (chunk: string) => ServerSentEvent[];
+  reset: () => void;
+  // Reconnection delay in ms from the last `retry:` field; it applies to the whole
+  // stream, not to the event it arrived with. Undefined until the server sends one.
+  retryDelay: () => number | undefined;
+}
+
+// Incremental event-stream parser. Text can be fed in arbitrary pieces; lines and
+// events split across network reads are buffered until they are complete.
+export function createEventStreamParser(): EventStreamParser {
+  let buffer = '';
+  let pendingCarriageReturn = false;
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId = '';
+  let retry: number | undefined;
+
+  const dispatch = (events: ServerSentEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+      });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: ServerSentEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return; // comment
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  const feed = (chunk: string): ServerSentEvent[] => {
+    const events: ServerSentEvent[] = [];
+    let text = chunk;
+
+    if (text === '') return events;
+
+    // A "\r" ending the previous chunk already terminated its line
+    if (pendingCarriageReturn && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    pendingCarriageReturn = false;
+    buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      processLine(buffer.slice(start, i), events);
+      if (char === '\r') {
+        if (i + 1 === buffer.length) {
+          pendingCarriageReturn = true;
+        } else if (buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+    return events;
+  };
+
+  // Drop any partial line or event. Per spec, an unterminated trailing event is
+  // discarded at end of stream, so this is also what to call when a stream closes.
+  const reset = () => {
+    buffer = '';
+    pendingCarriageReturn = false;
+    eventType = '';
+    dataLines = [];
+  };
+
+  return { feed, reset, retryDelay: () => retry };
+}
+
+// Decode the JSON payload of a chat stream event. The event name takes precedence
+// over a `type` field in the payload so either framing works.
+export function parseChatStreamEvent(event: ServerSentEvent): ChatStreamEvent | null {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(event.data);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object') return null;
+
+  const type = event.event !== 'message' ? event.event : payload.type;
+  switch (type) {
+    case 'user_message':
+    case 'assistant_start':
+    case 'assistant_complete':
+      return { type, message: payload.message as Message };
+    case 'assistant_chunk':
+      return { type, content: typeof payload.content === 'string' ? payload.content : '' };
+    case 'conversation_title':
+      return { type, title: typeof payload.title === 'string' ? payload.title : '' };
+    case 'done':
+      return { type };
+    case 'error':
+      return { type, error: typeof payload.error === 'string' ? payload.error : 'Unknown streaming error' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,103 @@
+import type { Conversation, Message } from '@/lib/api';
+import { formatDate, generateConversationTitle } from '@/lib/utils';
+
+export const MEDICAL_DISCLAIMER =
+  'This transcript was produced with an AI assistant and is for informational purposes only. ' +
+  'It is not medical advice, diagnosis or treatment, and must be reviewed by a qualified ' +
+  'healthcare professional before it informs any clinical decision.';
+
+export type ExportFormat = 'markdown' | 'pdf' | 'json';
+
+// The JSON export is the conversation as the API returns it, plus who exported it and when
+export interface ConversationExport extends Conversation {
+  exported_at: string;
+  exported_by: string;
+  disclaimer: string;
+}
+
+export function exportTitle(conversation: Conversation): string {
+  if (conversation.title) return conversation.title;
+  const firstMessage = conversation.first_message
+    ?? conversation.messages.find((message) => message.role === 'user')?.content
+    ?? '';
+  return generateConversationTitle(firstMessage) || `Conversation ${conversation.conversation_id}`;
+}
+
+export function speakerLabel(message: Message, username: string): string {
+  return message.role === 'user' ? username : 'Assistant';
+}
+
+// Only the active branch is exported as text; the JSON keeps the whole tree
+export function conversationToMarkdown(conversation: Conversation, username: string, exportedAt = new Date()): string {
+  const lines = [
+    `# ${exportTitle(conversation)}`,
+    '',
+    `- Started: ${formatDate(conversation.timestamp)}`,
+    `- Exported by: ${username}`,
+    `- Exported: ${formatDate(exportedAt)}`,
+    '',
+  ];
+  for (const message of conversation.messages) {
+    lines.push('---', '', `### ${speakerLabel(message, username)} · ${formatDate(message.timestamp)}`, '');
+    lines.push(message.content.trim());
+    if (message.stopped) lines.push('', '_(reply stopped before it finished)_');
+    lines.push('');
+  }
+  lines.push('---', '', `> ${MEDICAL_DISCLAIMER}`, '');
+  return lines.join('\n');
+}
+
+export function conversationsToMarkdown(conversations: Conversation[], username: string): string {
+  const exportedAt = new Date();
+  return conversations.map((conversation) => conversationToMarkdown(conversation, username, exportedAt)).join('\n\n');
+}
+
+export function toConversationExport(conversation: Conversation, username: string, exportedAt = new Date()): ConversationExport {
+  return {
+    ...conversation,
+    exported_at: exportedAt.toISOString(),
+    exported_by: username,
+    disclaimer: MEDICAL_DISCLAIMER,
+  };
+}
+
+// A single conversation exports as an object, several as an array of them
+export function conversationsToJson(conversations: Conversation[], username: string): string {
+  const exportedAt = new Date();
+  const exports = conversations.map((conversation) => toConversationExport(conversation, username, exportedAt));
+  return JSON.stringify(exports.length === 1 ? exports[0] : exports, null, 2);
+}
+
+export function exportFileName(conversations: Conversation[], extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  if (conversations.length !== 1) {
+    return `conversations-${date}.${extension}`;
+  }
+  const slug = exportTitle(conversations[0])
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}-${date}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers, e.g. Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Markdown and JSON are downloaded straight away; PDF goes through the print view
+export function downloadConversations(conversations: Conversation[], format: Exclude<ExportFormat, 'pdf'>, username: string): void {
+  if (format === 'markdown') {
+    downloadFile(exportFileName(conversations, 'md'), conversationsToMarkdown(conversations, username), 'text/markdown');
+  } else {
+    downloadFile(exportFileName(conversations, 'json'), conversationsToJson(conversations, username), 'application/json');
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_IMPORT_CONVERSATIONS, importedMessageCount, parseConversationArchive } from '@/lib/import';
+
+const message = (id: string, parentId: string | null = null) => ({
+  id,
+  parent_id: parentId,
+  role: 'user',
+  content: `Message ${id}`,
+  timestamp: '2024-03-10T12:00:00',
+});
+
+const conversation = (id = 1) => ({
+  conversation_id: id,
+  user_id: 7,
+  timestamp: '2024-03-10T12:00:00',
+  title: 'Headache',
+  messages: [message('m1')],
+});
+
+const parse = (data: unknown) => parseConversationArchive(JSON.stringify(data));
+
+describe('parseConversationArchive', () => {
+  it('accepts a single conversation or an array of them', () => {
+    const single = parse(conversation());
+    expect(single.ok && single.conversations.map((conv) => conv.conversation_id)).toEqual([1]);
+
+    const many = parse([conversation(1), conversation(2)]);
+    expect(many.ok && many.conversations.map((conv) => conv.conversation_id)).toEqual([1, 2]);
+  });
+
+  it('fills in defaults for optional message fields', () => {
+    const { parent_id: _, ...withoutParent } = message('m1');
+    const result = parse({ ...conversation(), messages: [withoutParent] });
+    expect(result.ok && result.conversations[0].messages[0].parent_id).toBeNull();
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(parseConversationArchive('{"conversation_id": 1,')).toEqual({
+      ok: false,
+      errors: ['The file is not valid JSON'],
+    });
+  });
+
+  it('rejects an empty archive', () => {
+    expect(parse([])).toEqual({ ok: false, errors: ['The archive is empty'] });
+  });
+
+  it('rejects a conversation without messages', () => {
+    expect(parse({ ...conversation(), messages: [] })).toEqual({
+      ok: false,
+      errors: ['Conversation has no messages'],
+    });
+  });
+
+  it('accepts a conversation whose messages are only in the tree', () => {
+    const result = parse({ ...conversation(), messages: [], message_tree: [message('m1'), message('m2', 'm1')] });
+    expect(result.ok && importedMessageCount(result.conversations[0])).toBe(2);
+  });
+
+  it('points at the offending field', () => {
+    const broken = { ...conversation(), messages: [{ ...message('m1'), role: 'system', timestamp: 'yesterday' }] };
+
+    const single = parse(broken);
+    expect(single.ok).toBe(false);
+    expect(!single.ok && single.errors).toEqual([
+      expect.stringMatching(/^conversation\.messages\[0\]\.role: /),
+      'conversation.messages[0].timestamp: Invalid date',
+    ]);
+
+    const many = parse([conversation(), broken]);
+    expect(!many.ok && many.errors).toEqual([
+      expect.stringMatching(/^conversations\[1\]\.messages\[0\]\.role: /),
+      'conversations[1].messages[0].timestamp: Invalid date',
+    ]);
+  });
+
+  it('reports at most five problems', () => {
+    const broken = Array.from({ length: 8 }, (_, index) => ({ ...conversation(index), user_id: 'someone' }));
+    const result = parse(broken);
+    expect(!result.ok && result.errors).toHaveLength(5);
+  });
+
+  it(`rejects more than ${MAX_IMPORT_CONVERSATIONS} conversations`, () => {
+    const atLimit = parse(Array.from({ length: MAX_IMPORT_CONVERSATIONS }, (_, index) => conversation(index)));
+    expect(atLimit.ok).toBe(true);
+
+    const overLimit = parse(Array.from({ length: MAX_IMPORT_CONVERSATIONS + 1 }, (_, index) => conversation(index)));
+    expect(overLimit).toEqual({
+      ok: false,
+      errors: [`At most ${MAX_IMPORT_CONVERSATIONS} conversations can be imported at once`],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import type { Conversation } from '@/lib/api';
+
+// Matches MAX_IMPORT_SIZE on the backend
+export const MAX_IMPORT_CONVERSATIONS = 100;
+
+const timestampSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  parent_id: z.string().nullable().default(null),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: timestampSchema,
+  stopped: z.boolean().optional(),
+  feedback: z.object({
+    rating: z.enum(['up', 'down']),
+    reason: z.string().nullable().default(null),
+    timestamp: timestampSchema,
+  }).optional(),
+});
+
+// The `Conversation` shape from lib/api.ts, as written by the JSON export
+export const conversationSchema = z.object({
+  conversation_id: z.number().int(),
+  user_id: z.number().int(),
+  timestamp: timestampSchema,
+  title: z.string().nullable().optional(),
+  messages: z.array(messageSchema),
+  message_tree: z.array(messageSchema).optional(),
+  active_message_id: z.string().nullable().optional(),
+  first_message: z.string().optional(),
+}).refine(
+  (conversation) => conversation.messages.length > 0 || (conversation.message_tree?.length ?? 0) > 0,
+  'Conversation has no messages'
+);
+
+export type ArchiveParseResult =
+  | { ok: true; conversations: Conversation[] }
+  | { ok: false; errors: string[] };
+
+// Validate an archive holding one conversation or an array of them. Only the
+// first few problems are reported; they're enough to tell what is wrong.
+export function parseConversationArchive(text: string): ArchiveParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON'] };
+  }
+
+  const isArray = Array.isArray(data);
+  const result = isArray
+    ? z.array(conversationSchema).min(1, 'The archive is empty').safeParse(data)
+    : conversationSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.slice(0, 5).map((issue) => {
+        const path = issue.path.map((part) => typeof part === 'number' ? `[${part}]` : `.${part}`).join('');
+        return path ? `${isArray ? 'conversations' : 'conversation'}${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+
+  const conversations: Conversation[] = Array.isArray(result.data) ? result.data : [result.data];
+  if (conversations.length > MAX_IMPORT_CONVERSATIONS) {
+    return { ok: false, errors: [`At most ${MAX_IMPORT_CONVERSATIONS} conversations can be imported at once`] };
+  }
+  return { ok: true, conversations };
+}
+
+// The backend imports the whole tree when there is one, else the active branch
+export function importedMessageCount(conversation: Conversation): number {
+  return conversation.message_tree?.length || conversation.messages.length;
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { parseDate } from '@/lib/utils';
+
+describe('parseDate', () => {
+  it('reads timestamps without an offset as UTC', () => {
+    expect(parseDate('2024-03-10T23:30:00').toISOString()).toBe('2024-03-10T23:30:00.000Z');
+    expect(parseDate('2024-03-10T23:30:00.123456').toISOString()).toBe('2024-03-10T23:30:00.123Z');
+  });
+
+  it('keeps an explicit offset', () => {
+    expect(parseDate('2024-03-10T23:30:00Z').toISOString()).toBe('2024-03-10T23:30:00.000Z');
+    expect(parseDate('2024-03-10T23:30:00+02:00').toISOString()).toBe('2024-03-10T21:30:00.000Z');
+  });
+});
@@ -5,8 +5,16 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// The backend stores UTC without an offset; read such timestamps as UTC, not local time
+export function parseDate(date: string | Date): Date {
+  if (typeof date === 'string' && !/(Z|[+-]\d{2}:?\d{2})$/i.test(date)) {
+    return new Date(`${date}Z`);
+  }
+  return new Date(date);
+}
+
 export function formatDate(date: string | Date): string {
-  const d = new Date(date);
+  const d = parseDate(date);
   return d.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -18,7 +26,7 @@ export function formatDate(date: string | Date): string {
 
 export function formatRelativeTime(date: string | Date): string {
   const now = new Date();
-  const target = new Date(date);
+  const target = parseDate(date);
   const diffInMs = now.getTime() - target.getTime();
   const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
   
@@ -40,6 +48,26 @@ export function formatRelativeTime(date: string | Date): string {
   }
 }
 
+export const DATE_GROUPS = ['Today', 'Yesterday', 'Previous 7 days', 'Older'] as const;
+export type DateGroup = (typeof DATE_GROUPS)[number];
+
+// Bucket a date by calendar day, relative to the local today
+export function getDateGroup(date: string | Date): DateGroup {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const dayInMs = 1000 * 60 * 60 * 24;
+  const time = parseDate(date).getTime();
+
+  if (time >= startOfToday.getTime()) {
+    return 'Today';
+  } else if (time >= startOfToday.getTime() - dayInMs) {
+    return 'Yesterday';
+  } else if (time >= startOfToday.getTime() - 7 * dayInMs) {
+    return 'Previous 7 days';
+  }
+  return 'Older';
+}
+
 export function truncateText(text: string, maxLength: number = 50): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + '...';
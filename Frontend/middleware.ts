@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ACCESS_COOKIE, SESSION_COOKIE, isPublicPath, loginPath } from '@/lib/auth';
+
+// How the Next server reaches the API; inside Docker this differs from the browser's URL
+const API_URL = process.env.API_INTERNAL_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+
+async function hasSession(request: NextRequest): Promise<boolean> {
+  const accessToken = request.cookies.get(ACCESS_COOKIE)?.value;
+  if (accessToken) {
+    try {
+      const response = await fetch(`${API_URL}/me`, {
+        headers: { cookie: `${ACCESS_COOKIE}=${accessToken}` },
+        cache: 'no-store',
+      });
+      // Only a rejected token counts as logged out; if the API is down the page reports it
+      if (response.status !== 401) return true;
+    } catch (error) {
+      console.error('Session check failed:', error);
+      return true;
+    }
+  }
+  // The access cookie is short-lived. While the session cookie is there the browser can
+  // still renew the session itself, which only it can do: the refresh cookie is
+  // never sent to this server.
+  return request.cookies.has(SESSION_COOKIE);
+}
+
+// Send requests without a session to the login page before anything renders,
+// remembering where they were headed
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublicPath(pathname) || (await hasSession(request))) {
+    return NextResponse.next();
+  }
+  return NextResponse.redirect(new URL(loginPath(pathname + search), request.url));
+}
+
+export const config = {
+  // Pages only: not API routes, Next internals or static files
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};